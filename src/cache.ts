@@ -0,0 +1,152 @@
+import { createHash } from 'node:crypto'
+import { readFileSync, readdirSync, statSync } from 'node:fs'
+
+type Data = Record<string, unknown>
+
+/** `context.meta` key the cache is persisted under */
+export const CACHE_META_KEY = 'glob-frontmatter:data-files'
+const CACHE_VERSION = 1
+
+interface CachedFile {
+  mtimeMs: number
+  size: number
+  hash: string
+  data: Data
+}
+
+export interface DirListing {
+  names: Set<string>
+  /** Names of subdirectories */
+  dirs: string[]
+}
+
+interface CachedDir extends DirListing {
+  mtimeMs: number
+}
+
+/** Minimal shape of Astro's `context.meta` */
+interface MetaStore {
+  get: (key: string) => string | undefined
+  set: (key: string, value: string) => void
+}
+
+export interface DataFileCache {
+  /** Copy of the parsed data for a file, re-parsing only when its size, mtime and content hash say it changed */
+  read(file: string, parse: (content: string) => Data): Data
+  /** Names and subdirectories of a directory, re-read only when the directory's mtime changed */
+  listDir(dir: string): DirListing | undefined
+  /** Start a load: forget which files were parsed or seen by the previous one */
+  beginLoad(): void
+  /** Files actually parsed (not served from cache) since `beginLoad()` */
+  readonly parsed: ReadonlySet<string>
+  /** Restore parsed files persisted by an earlier process, if the cache is still empty */
+  restore(meta: MetaStore): void
+  /** Persist every file seen during this load, dropping files that no longer exist */
+  persist(meta: MetaStore): void
+}
+
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex')
+}
+
+/** Only data that survives a JSON round trip unchanged is persisted (TOML dates are not). */
+function isJsonSafe(value: unknown): boolean {
+  if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) return true
+  if (Array.isArray(value)) return value.every(isJsonSafe)
+  if (typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.values(value as Data).every(isJsonSafe)
+  }
+  return false
+}
+
+export function createDataFileCache(): DataFileCache {
+  const files = new Map<string, CachedFile>()
+  const dirs = new Map<string, CachedDir>()
+  const seen = new Set<string>()
+  const parsed = new Set<string>()
+
+  return {
+    parsed,
+
+    read(file, parse) {
+      seen.add(file)
+      const { mtimeMs, size } = statSync(file)
+      const cached = files.get(file)
+      // Hand out copies: merged entry data may hold the returned objects and arrays as-is
+      if (cached && cached.mtimeMs === mtimeMs && cached.size === size) return structuredClone(cached.data)
+
+      const content = readFileSync(file, 'utf-8')
+      const hash = hashContent(content)
+      if (cached && cached.hash === hash) {
+        files.set(file, { ...cached, mtimeMs, size })
+        return structuredClone(cached.data)
+      }
+      const data = parse(content)
+      parsed.add(file)
+      files.set(file, { mtimeMs, size, hash, data })
+      return structuredClone(data)
+    },
+
+    listDir(dir) {
+      let mtimeMs: number
+      try {
+        mtimeMs = statSync(dir).mtimeMs
+      } catch {
+        dirs.delete(dir)
+        return undefined
+      }
+      const cached = dirs.get(dir)
+      if (cached && cached.mtimeMs === mtimeMs) return cached
+
+      const listing = listDir(dir)
+      if (!listing) return undefined
+      const entry = { mtimeMs, ...listing }
+      dirs.set(dir, entry)
+      return entry
+    },
+
+    beginLoad() {
+      seen.clear()
+      parsed.clear()
+    },
+
+    restore(meta) {
+      if (files.size > 0) return
+      const stored = meta.get(CACHE_META_KEY)
+      if (!stored) return
+      try {
+        const { version, files: entries } = JSON.parse(stored) as { version: number; files: Record<string, CachedFile> }
+        if (version !== CACHE_VERSION) return
+        for (const [file, entry] of Object.entries(entries)) files.set(file, entry)
+      } catch {
+        // Corrupt cache — start from scratch
+      }
+    },
+
+    persist(meta) {
+      const entries: Record<string, CachedFile> = {}
+      for (const [file, entry] of files) {
+        if (!seen.has(file)) {
+          files.delete(file)
+        } else if (isJsonSafe(entry.data)) {
+          entries[file] = entry
+        }
+      }
+      meta.set(CACHE_META_KEY, JSON.stringify({ version: CACHE_VERSION, files: entries }))
+    },
+  }
+}
+
+/** Uncached directory listing, matching `DataFileCache.listDir`. */
+export function listDir(dir: string): DirListing | undefined {
+  let entries: import('node:fs').Dirent[]
+  try {
+    entries = readdirSync(dir, { withFileTypes: true, encoding: 'utf-8' })
+  } catch {
+    return undefined
+  }
+  return {
+    names: new Set(entries.map((entry) => entry.name)),
+    dirs: entries.filter((entry) => entry.isDirectory()).map((entry) => entry.name),
+  }
+}
@@ -0,0 +1,193 @@
+#!/usr/bin/env node
+import { realpathSync } from 'node:fs'
+import { relative, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { parseArgs } from 'node:util'
+import { unifiedDiff } from './diff.js'
+import { applyChanges, extractFrontmatter, inlineFrontmatter } from './migrate.js'
+import type { FileChange } from './migrate.js'
+import { fixFrontmatter, lintFrontmatter } from './lint.js'
+import type { LintIssue } from './lint.js'
+
+const USAGE = `Usage: glob-frontmatter <command> --base <dir> [options]
+
+Commands:
+  extract   Move frontmatter out of content files into data files
+  inline    Write external data back into content files
+  lint      Check data files for ignored, duplicate, unmatched, ambiguous and unsorted keys
+
+Options:
+  --root <dir>            Astro root (default: current directory)
+  --base <dir>            Content directory, relative to the root
+  --pattern <glob>        Content files relative to base (default: **/*.{md,mdx,mdoc})
+  --dry-run               Print a diff instead of writing files
+
+extract:
+  --keys <a,b>            Top-level keys to move (default: all)
+  --to <target>           central (default) or per-directory
+  --file <path>           Central file relative to the root (default: frontmatter.yml),
+                          or per-directory filename
+  --layout <layout>       nested (default) or flat keys in the central file
+
+inline, lint:
+  --frontmatter <path>    Central data file relative to the root (repeatable)
+  --no-per-directory      Ignore per-directory data files
+  --match-by slug         Also match keys against entry slugs
+  --ignore-case           Match keys regardless of case
+  --ignore-extension      Match keys with or without a content extension
+
+inline:
+  --remove-data-files     Delete the data files after inlining
+
+lint:
+  --fix                   Rewrite YAML and JSON data files with keys in canonical order
+`
+
+export interface CliIO {
+  stdout: (text: string) => void
+  stderr: (text: string) => void
+}
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+}
+
+function report(changes: FileChange[], rootDir: string, dryRun: boolean, io: CliIO): void {
+  if (changes.length === 0) {
+    io.stdout('Nothing to change.\n')
+    return
+  }
+  if (dryRun) {
+    for (const { file, before, after } of changes) io.stdout(unifiedDiff(relative(rootDir, file), before, after))
+    return
+  }
+  applyChanges(changes)
+  for (const { file, before, after } of changes) {
+    const action = after === null ? 'deleted' : before === null ? 'created' : 'updated'
+    io.stdout(`${action} ${relative(rootDir, file)}\n`)
+  }
+}
+
+function parseCommandLine(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      root: { type: 'string' },
+      base: { type: 'string' },
+      pattern: { type: 'string', multiple: true },
+      'dry-run': { type: 'boolean' },
+      keys: { type: 'string' },
+      to: { type: 'string' },
+      file: { type: 'string' },
+      layout: { type: 'string' },
+      frontmatter: { type: 'string', multiple: true },
+      'no-per-directory': { type: 'boolean' },
+      'match-by': { type: 'string' },
+      'ignore-case': { type: 'boolean' },
+      'ignore-extension': { type: 'boolean' },
+      'remove-data-files': { type: 'boolean' },
+      fix: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+}
+
+function formatLintIssue({ file, line, column, severity, message, rule }: LintIssue): string {
+  const location = line === undefined ? file : `${file}:${line}:${column}`
+  return `${location} ${severity} ${message} (${rule})\n`
+}
+
+/** Run the command line with `argv` (without the node and script paths); resolves to the exit code. */
+export async function main(argv: string[], io: CliIO = defaultIO): Promise<number> {
+  let parsed: ReturnType<typeof parseCommandLine>
+  try {
+    parsed = parseCommandLine(argv)
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}`)
+    return 1
+  }
+  const { values, positionals } = parsed
+  const [command] = positionals
+  if (values.help || !command) {
+    io.stdout(USAGE)
+    return values.help ? 0 : 1
+  }
+  if (!values.base) {
+    io.stderr('Missing required option --base\n')
+    return 1
+  }
+  if (values.to && !['central', 'per-directory'].includes(values.to)) {
+    io.stderr(`Unknown --to target: ${values.to}\n`)
+    return 1
+  }
+  if (values.layout && !['nested', 'flat'].includes(values.layout)) {
+    io.stderr(`Unknown --layout: ${values.layout}\n`)
+    return 1
+  }
+
+  const matchBy = values['match-by']?.split(',').map((form) => form.trim()).filter(Boolean)
+  if (matchBy?.includes('id')) {
+    io.stderr('--match-by id is not supported: entry ids come from the collection\'s generateId, which only runs inside Astro\n')
+    return 1
+  }
+  const unknownForm = matchBy?.find((form) => form !== 'slug')
+  if (unknownForm) {
+    io.stderr(`Unknown --match-by: ${unknownForm}\n`)
+    return 1
+  }
+
+  const rootDir = resolve(values.root ?? '.')
+  const keyMatch = { ignoreCase: values['ignore-case'], ignoreExtension: values['ignore-extension'] }
+  const scan = { rootDir, base: values.base, pattern: values.pattern }
+  const dryRun = values['dry-run'] ?? false
+  try {
+    if (command === 'extract') {
+      const changes = extractFrontmatter({
+        ...scan,
+        keys: values.keys?.split(',').map((key) => key.trim()).filter(Boolean),
+        to: values.to as 'central' | 'per-directory' | undefined,
+        file: values.file,
+        layout: values.layout as 'nested' | 'flat' | undefined,
+      })
+      report(changes, rootDir, dryRun, io)
+    } else if (command === 'inline') {
+      const changes = inlineFrontmatter({
+        ...scan,
+        frontmatter: values.frontmatter,
+        perDirectory: values['no-per-directory'] ? false : undefined,
+        matchBy: matchBy as Array<'slug'> | undefined,
+        keyMatch,
+        removeDataFiles: values['remove-data-files'],
+      })
+      report(changes, rootDir, dryRun, io)
+    } else if (command === 'lint') {
+      const lintOptions = {
+        ...scan,
+        frontmatter: values.frontmatter,
+        perDirectory: values['no-per-directory'] ? false as const : undefined,
+        matchBy: matchBy as Array<'slug'> | undefined,
+        keyMatch,
+      }
+      if (values.fix) report(fixFrontmatter(lintOptions), rootDir, dryRun, io)
+      const issues = lintFrontmatter(lintOptions)
+      for (const issue of issues) io.stdout(formatLintIssue(issue))
+      if (issues.some((issue) => issue.severity === 'error')) return 1
+    } else {
+      io.stderr(`Unknown command: ${command}\n\n${USAGE}`)
+      return 1
+    }
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n`)
+    return 1
+  }
+  return 0
+}
+
+// Run when executed directly, including through the symlink package managers put in `.bin`
+if (process.argv[1] && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code
+  })
+}
@@ -0,0 +1,116 @@
+import { DEFAULTS_KEY, displayPath, isGlobPattern, matchKey } from './frontmatter-map.js'
+import type { FrontmatterSource, KeyMatchOptions, LookupResult } from './frontmatter-map.js'
+
+/** An entry key in a data file that no entry of the collection resolved to. */
+export interface UnmatchedKey {
+  /** Data file declaring the key */
+  file: string
+  key: string
+  /** Closest entry path, when one is near enough to be a likely typo */
+  suggestion?: string
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function closestPath(key: string, entryPaths: string[]): string | undefined {
+  const maxDistance = Math.max(1, Math.min(3, Math.floor(key.length / 4)))
+  let best: string | undefined
+  let bestDistance = maxDistance + 1
+  for (const path of entryPaths) {
+    const distance = editDistance(key, path)
+    if (distance < bestDistance) {
+      best = path
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+function isExactKey(key: string): boolean {
+  return !isGlobPattern(key) && key.split('/').pop() !== DEFAULTS_KEY
+}
+
+/**
+ * Resolve every entry path through `lookup` and return the data file keys
+ * that none of them used.
+ */
+export function findUnmatchedKeys(
+  sources: FrontmatterSource[],
+  lookup: (relPath: string) => LookupResult,
+  entryPaths: Iterable<string>,
+): UnmatchedKey[] {
+  const paths = [...new Set(entryPaths)]
+  const used = new Map<FrontmatterSource, Set<string>>()
+  for (const path of paths) {
+    for (const { source, key } of lookup(path).layers) {
+      const keys = used.get(source) ?? new Set<string>()
+      keys.add(key)
+      used.set(source, keys)
+    }
+  }
+
+  const unmatched: UnmatchedKey[] = []
+  for (const source of sources) {
+    for (const key of source.entries.keys()) {
+      if (used.get(source)?.has(key)) continue
+      const isExact = isExactKey(key)
+      const suggestion = isExact ? closestPath(key, paths) : undefined
+      unmatched.push(suggestion ? { file: source.file, key, suggestion } : { file: source.file, key })
+    }
+  }
+  return unmatched
+}
+
+export function formatUnmatchedKey(unmatched: UnmatchedKey, rootDir: string): string {
+  const hint = unmatched.suggestion ? ` (did you mean "${unmatched.suggestion}"?)` : ''
+  return `${displayPath(unmatched.file, rootDir)}: "${unmatched.key}" does not match any entry${hint}`
+}
+
+/** An exact key that several entry paths match once case or extension is ignored. */
+export interface AmbiguousKey {
+  /** Data file declaring the key */
+  file: string
+  key: string
+  /** Every entry path the key matches */
+  paths: string[]
+}
+
+/** Find exact keys that match more than one entry path under `keyMatch`. */
+export function findAmbiguousKeys(
+  sources: FrontmatterSource[],
+  entryPaths: Iterable<string>,
+  keyMatch: KeyMatchOptions = {},
+  extensions?: ReadonlySet<string>,
+): AmbiguousKey[] {
+  if (!keyMatch.ignoreCase && !keyMatch.ignoreExtension) return []
+  const pathsByKey = new Map<string, string[]>()
+  for (const path of new Set(entryPaths)) {
+    const key = matchKey(path, keyMatch, extensions)
+    pathsByKey.set(key, [...pathsByKey.get(key) ?? [], path])
+  }
+
+  const ambiguous: AmbiguousKey[] = []
+  for (const source of sources) {
+    for (const key of source.entries.keys()) {
+      if (!isExactKey(key)) continue
+      const paths = pathsByKey.get(matchKey(key, keyMatch, extensions))
+      if (paths && paths.length > 1) ambiguous.push({ file: source.file, key, paths: [...paths].sort() })
+    }
+  }
+  return ambiguous
+}
+
+export function formatAmbiguousKey(ambiguous: AmbiguousKey, rootDir: string): string {
+  return `${displayPath(ambiguous.file, rootDir)}: "${ambiguous.key}" matches more than one entry: ${ambiguous.paths.join(', ')}`
+}
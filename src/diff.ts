@@ -0,0 +1,63 @@
+type Op = { type: ' ' | '-' | '+'; line: string }
+
+function splitLines(text: string): string[] {
+  if (text === '') return []
+  const lines = text.split('\n')
+  if (lines.at(-1) === '') lines.pop()
+  return lines
+}
+
+/** Line edit script via longest common subsequence; data and frontmatter files are small. */
+function diffLines(a: string[], b: string[]): Op[] {
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+  const ops: Op[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i] })
+      i++
+      j++
+    } else if (i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      ops.push({ type: '-', line: a[i++] })
+    } else {
+      ops.push({ type: '+', line: b[j++] })
+    }
+  }
+  return ops
+}
+
+/**
+ * Unified diff of a file's contents, with three lines of context. `null`
+ * stands for a file that does not exist (created or deleted).
+ */
+export function unifiedDiff(file: string, before: string | null, after: string | null, context = 3): string {
+  const ops = diffLines(splitLines(before ?? ''), splitLines(after ?? ''))
+  const changed = ops.flatMap((op, index) => (op.type === ' ' ? [] : [index]))
+  if (changed.length === 0) return ''
+
+  const out = [`--- ${before === null ? '/dev/null' : `a/${file}`}`, `+++ ${after === null ? '/dev/null' : `b/${file}`}`]
+  let index = 0
+  while (index < changed.length) {
+    // Grow the hunk while the next change is within two contexts of the last
+    const start = Math.max(0, changed[index] - context)
+    let last = changed[index]
+    while (index + 1 < changed.length && changed[index + 1] - last <= context * 2) last = changed[++index]
+    index++
+    const end = Math.min(ops.length, last + context + 1)
+
+    const hunk = ops.slice(start, end)
+    const oldStart = ops.slice(0, start).filter((op) => op.type !== '+').length
+    const newStart = ops.slice(0, start).filter((op) => op.type !== '-').length
+    const oldCount = hunk.filter((op) => op.type !== '+').length
+    const newCount = hunk.filter((op) => op.type !== '-').length
+    out.push(`@@ -${oldCount ? oldStart + 1 : oldStart},${oldCount} +${newCount ? newStart + 1 : newStart},${newCount} @@`)
+    for (const op of hunk) out.push(op.type + op.line)
+  }
+  return out.join('\n') + '\n'
+}
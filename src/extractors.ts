@@ -0,0 +1,125 @@
+import type { MarkdownHeading } from 'astro'
+import { recordMergeStep } from './provenance.js'
+import type { FieldOrigin, Provenance } from './provenance.js'
+
+type Data = Record<string, unknown>
+
+export interface ExtractorInput {
+  /** Raw file body, without the frontmatter fences */
+  body: string
+  /** Content file path relative to the Astro root */
+  filePath: string
+  /** Entry id */
+  id: string
+  /** Entry data merged so far: external layers, in-file frontmatter, and earlier extractors */
+  data: Data
+}
+
+export interface ExtractorResult {
+  /** Fields to fill; a field any layer or an earlier extractor set is kept */
+  data?: Data
+  /** Rewrite the stored body */
+  body?: (body: string) => string
+  /** Rewrite the rendered HTML */
+  html?: (html: string) => string
+  /** Rewrite the rendered headings */
+  headings?: (headings: MarkdownHeading[]) => MarkdownHeading[]
+  /** Fields to fill from the rendered output, which only exists once the entry is stored */
+  renderedData?: (rendered: { html: string; headings: MarkdownHeading[] }) => Data | undefined
+}
+
+/** Derive entry fields from the content file body. */
+export type ExtractorFn = (input: ExtractorInput) => ExtractorResult | undefined | Promise<ExtractorResult | undefined>
+
+export interface Extractor {
+  extract: ExtractorFn
+  /** Label for provenance (defaults to the function name) */
+  name?: string
+}
+
+/** An extractor with the provenance origin its fields are attributed to */
+export interface ExtractorStep {
+  extract: ExtractorFn
+  origin: FieldOrigin
+}
+
+/** Output-side transforms collected from one entry's extractors, applied when it is stored */
+export type EntryTransforms = Array<Omit<ExtractorResult, 'data'>>
+
+function isPlainObject(value: unknown): value is Data {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/** Copy fields from `extracted` that `data` leaves unset, recursing into objects both sides hold. */
+function fillMissing(data: Data, extracted: Data): Data {
+  const result = { ...data }
+  for (const [key, value] of Object.entries(extracted)) {
+    const current = result[key]
+    if (current === undefined || current === null || current === '') {
+      result[key] = value
+    } else if (isPlainObject(current) && isPlainObject(value)) {
+      result[key] = fillMissing(current, value)
+    }
+  }
+  return result
+}
+
+/** Resolve the `extractors` option, attributing fields to the content file under each extractor's name. */
+export function toExtractorSteps(extractors: Array<Extractor | ExtractorFn>, filePath: string): ExtractorStep[] {
+  return extractors.map((item, index) => {
+    const extractor = typeof item === 'function' ? { extract: item } : item
+    const name = extractor.name || extractor.extract.name || `extractors[${index}]`
+    return { extract: extractor.extract, origin: { layer: 'extractor', file: filePath, key: name } }
+  })
+}
+
+/**
+ * Run extractors in order, each seeing the data filled so far. Returns the
+ * filled data and the body, HTML and heading transforms to apply on store.
+ */
+export async function runExtractors(
+  steps: ExtractorStep[],
+  input: Omit<ExtractorInput, 'data'>,
+  data: Data,
+  provenance?: Provenance,
+): Promise<{ data: Data; transforms: EntryTransforms }> {
+  const transforms: EntryTransforms = []
+  for (const { extract, origin } of steps) {
+    const result = await extract({ ...input, data })
+    if (!result) continue
+    const { data: extracted, ...transform } = result
+    if (extracted) {
+      const next = fillMissing(data, extracted)
+      if (provenance) recordMergeStep(provenance, data, next, origin)
+      data = next
+    }
+    transforms.push(transform)
+  }
+  return { data, transforms }
+}
+
+/**
+ * Apply the collected transforms to an entry's data, body and rendered
+ * output, in extractor order. Fields from the rendered output only fill
+ * what the entry's data leaves unset.
+ */
+export function applyTransforms(
+  entry: {
+    data?: Data
+    body?: string
+    rendered?: { html: string; metadata?: { headings?: MarkdownHeading[]; [key: string]: unknown } }
+  },
+  transforms: EntryTransforms,
+): void {
+  for (const { body, html, headings, renderedData } of transforms) {
+    if (renderedData && entry.rendered && entry.data) {
+      const filled = renderedData({ html: entry.rendered.html, headings: entry.rendered.metadata?.headings ?? [] })
+      if (filled) entry.data = fillMissing(entry.data, filled)
+    }
+    if (body && entry.body !== undefined) entry.body = body(entry.body)
+    if (html && entry.rendered) entry.rendered.html = html(entry.rendered.html)
+    if (headings && entry.rendered?.metadata?.headings) {
+      entry.rendered.metadata.headings = headings(entry.rendered.metadata.headings)
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { createHash } from 'node:crypto'
+
+/** Prefix of the `context.meta` keys recording each entry's external data fingerprint */
+export const FINGERPRINT_META_PREFIX = 'glob-frontmatter:external:'
+
+/** `context.meta` key holding the fingerprint of the external data an entry was last parsed with */
+export function fingerprintKey(id: string): string {
+  return FINGERPRINT_META_PREFIX + id
+}
+
+/**
+ * Hash of the external data merged into an entry. Astro's glob loader only
+ * digests the content file, so this is compared separately to notice entries
+ * whose data files changed while the content file did not.
+ */
+export function fingerprintData(data: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(data)).digest('hex')
+}
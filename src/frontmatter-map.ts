@@ -1,26 +1,227 @@
-import { readFileSync, readdirSync, existsSync } from 'node:fs'
-import { extname, join, relative } from 'node:path'
-import { parse as parseYaml } from 'yaml'
-import { deepMerge } from './merge.js'
+import { readFileSync, existsSync } from 'node:fs'
+import { extname, isAbsolute, join, relative, resolve, sep } from 'node:path'
+import JSON5 from 'json5'
+import picomatch from 'picomatch'
+import { parse as parseToml, TomlError } from 'smol-toml'
+import { globSync } from 'tinyglobby'
+import { parse as parseYaml, Pair, Scalar, YAMLMap, YAMLParseError, YAMLSeq } from 'yaml'
+import type { Node as YamlNode, Tags } from 'yaml'
+import { listDir } from './cache.js'
+import type { DataFileCache } from './cache.js'
+import { deepMerge, FORCE, REPLACE, UNSET } from './merge.js'
+import type { ArrayMergeOptions } from './merge.js'
+import { toPosixPath } from './paths.js'
 
 type Data = Record<string, unknown>
 
-const CONTENT_EXTENSIONS = new Set(['.md', '.mdx', '.mdoc'])
-const FRONTMATTER_FILENAMES = ['frontmatter.yml', 'frontmatter.yaml', 'frontmatter.json']
+/** Extensions of the content files that keys name, unless the `pattern` or `extensions` option says otherwise */
+export const CONTENT_EXTENSIONS: ReadonlySet<string> = new Set(['.md', '.mdx', '.mdoc'])
+const FRONTMATTER_FILENAMES = [
+  'frontmatter.yml',
+  'frontmatter.yaml',
+  'frontmatter.json',
+  'frontmatter.toml',
+  'frontmatter.json5',
+  'frontmatter.jsonc',
+]
 
-function isContentFile(key: string): boolean {
-  return CONTENT_EXTENSIONS.has(extname(key))
+/** Reserved key whose data applies to every entry in a directory and its subdirectories. */
+export const DEFAULTS_KEY = '_defaults'
+
+export function isContentFile(key: string, extensions: ReadonlySet<string> = CONTENT_EXTENSIONS): boolean {
+  return extensions.has(extname(key))
+}
+
+/** How exact keys are compared with content paths */
+export interface KeyMatchOptions {
+  /** Match keys regardless of case, so `readme.md` matches `README.md` */
+  ignoreCase?: boolean
+  /** Match keys with or without a content extension, so `installation` matches `installation.md` or `.mdx` */
+  ignoreExtension?: boolean
+}
+
+/** The form of an exact key or content path that `createLookup` compares under `options`. */
+export function matchKey(key: string, options: KeyMatchOptions = {}, extensions = CONTENT_EXTENSIONS): string {
+  let result = key
+  if (options.ignoreExtension && isContentFile(result, extensions)) {
+    result = result.slice(0, -extname(result).length)
+  }
+  return options.ignoreCase ? result.toLowerCase() : result
+}
+
+/** Keys containing glob syntax (`*`, `?`, `[...]`, `{...}`) match many entries. */
+export function isGlobPattern(key: string): boolean {
+  return /[*?[{]/.test(key)
+}
+
+/**
+ * Content extensions for a collection: the `extensions` option when set,
+ * else the extensions the glob `pattern` ends in (`*.md`, `*.{md,json}`).
+ * Patterns that end in no extension fall back to the markdown defaults.
+ */
+export function resolveContentExtensions(
+  pattern: string | string[] | undefined,
+  extensions?: string[],
+): ReadonlySet<string> {
+  if (extensions) return new Set(extensions.map((ext) => (ext.startsWith('.') ? ext : `.${ext}`)))
+  const derived = new Set<string>()
+  for (const glob of [pattern ?? []].flat()) {
+    if (glob.startsWith('!')) continue
+    const match = /\.(?:\{([^{}]+)\}|([\w-]+))$/.exec(glob)
+    if (!match) return CONTENT_EXTENSIONS
+    for (const ext of (match[1] ?? match[2]).split(',')) derived.add(`.${ext.trim()}`)
+  }
+  return derived.size > 0 ? derived : CONTENT_EXTENSIONS
+}
+
+/** Glob for every content file with one of `extensions`, relative to the base. */
+export function contentPattern(extensions: ReadonlySet<string>): string {
+  const names = [...extensions].map((ext) => ext.slice(1))
+  return names.length === 1 ? `**/*.${names[0]}` : `**/*.{${names.join(',')}}`
+}
+
+export function isEntryKey(key: string, extensions: ReadonlySet<string> = CONTENT_EXTENSIONS): boolean {
+  return key === DEFAULTS_KEY || isContentFile(key, extensions) || isGlobPattern(key)
+}
+
+function isPlainObject(value: unknown): value is Data {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Whether extensionless keys may name entries: only when keys are matched
+ * by entry id or slug, or regardless of extension.
+ */
+export function allowsExtensionlessKeys(matchBy: readonly string[] | undefined, keyMatch: KeyMatchOptions = {}): boolean {
+  return (matchBy?.length ?? 0) > 0 || keyMatch.ignoreExtension === true
+}
+
+/**
+ * Whether a key of a nested data file holds entry data rather than a
+ * directory. With `extensionless`, a key without a content extension also
+ * counts when it holds a field that is not an object, which a directory
+ * never does, and no entry keys of its own.
+ */
+export function isEntryNode(
+  key: string,
+  value: unknown,
+  extensions: ReadonlySet<string> = CONTENT_EXTENSIONS,
+  extensionless = false,
+): boolean {
+  if (isEntryKey(key, extensions)) return true
+  if (!extensionless || !isPlainObject(value)) return false
+  const fields = Object.entries(value)
+  return !fields.some(([field]) => isEntryKey(field, extensions)) && fields.some(([, data]) => !isPlainObject(data))
+}
+
+/** Return the directory a `_defaults` key applies to, or null for other keys. */
+function defaultsDir(key: string): string | null {
+  if (key === DEFAULTS_KEY) return ''
+  if (key.endsWith(`/${DEFAULTS_KEY}`)) return key.slice(0, -DEFAULTS_KEY.length - 1)
+  return null
+}
+
+/** Wrap a tagged YAML collection as `{ [name]: node }` so it parses to the JSON directive form. */
+function wrapNode(name: string) {
+  return (node: YamlNode) => {
+    const map = new YAMLMap()
+    map.items.push(new Pair(new Scalar(name), node))
+    return map
+  }
 }
 
-function parseDataFile(filePath: string): Data {
-  const content = readFileSync(filePath, 'utf-8')
+/** Tagged scalars arrive as raw strings; re-resolve plain numbers, booleans and null. */
+function wrapScalar(name: string) {
+  return (str: string) => {
+    const value: unknown = parseYaml(str)
+    return { [name]: typeof value === 'object' && value !== null ? str : value }
+  }
+}
+
+/**
+ * YAML tags for merge directives. Each resolves to the same shape a JSON
+ * file would spell out: `!unset` → `"$unset"`, `!force x` → `{ "$force": x }`,
+ * `!replace x` → `{ "$replace": x }`.
+ */
+const DIRECTIVE_TAGS: Tags = [
+  { tag: '!unset', resolve: () => UNSET },
+  ...[FORCE, REPLACE].flatMap((name) => {
+    const tag = `!${name.slice(1)}`
+    return [
+      { tag, resolve: wrapScalar(name) },
+      { tag, collection: 'map' as const, nodeClass: YAMLMap, resolve: wrapNode(name) },
+      { tag, collection: 'seq' as const, nodeClass: YAMLSeq, resolve: wrapNode(name) },
+    ]
+  }),
+]
+
+/** Parsers by file extension. Anything not listed is read as YAML. */
+const PARSERS: Record<string, (content: string) => unknown> = {
+  '.json': (content) => {
+    try {
+      return JSON.parse(content)
+    } catch (e) {
+      // JSON.parse rarely reports a location, so prefer JSON5's error. JSON5 accepts
+      // more than JSON (comments, trailing commas, single quotes); when it parses,
+      // fall back to the position in JSON.parse's message
+      JSON5.parse(content)
+      throw withJsonPosition(e as SyntaxError, content)
+    }
+  },
+  '.json5': (content) => JSON5.parse(content),
+  '.jsonc': (content) => JSON5.parse(content),
+  '.toml': (content) => parseToml(content),
+}
+
+/** Attach the line and column a `JSON.parse` message names, as `position 12` or `(line 2 column 5)` */
+function withJsonPosition(e: SyntaxError, content: string): SyntaxError {
+  const lineColumn = /\(line (\d+) column (\d+)\)/.exec(e.message)
+  const position = /at position (\d+)/.exec(e.message)
+  if (lineColumn) {
+    Object.assign(e, { lineNumber: Number(lineColumn[1]), columnNumber: Number(lineColumn[2]) })
+  } else if (position) {
+    const lines = content.slice(0, Number(position[1])).split('\n')
+    Object.assign(e, { lineNumber: lines.length, columnNumber: lines.at(-1)!.length + 1 })
+  }
+  return e
+}
+
+function errorLocation(e: unknown): { line: number; column: number } | undefined {
+  if (e instanceof YAMLParseError && e.linePos) return { line: e.linePos[0].line, column: e.linePos[0].col }
+  if (e instanceof TomlError) return { line: e.line, column: e.column }
+  const { lineNumber, columnNumber } = e as { lineNumber?: number; columnNumber?: number }
+  if (typeof lineNumber === 'number' && typeof columnNumber === 'number') {
+    return { line: lineNumber, column: columnNumber }
+  }
+  return undefined
+}
+
+/** First line of a parser message, without the location the error already reports. */
+function errorSummary(e: unknown): string {
+  return (e as Error).message
+    .split('\n')[0]
+    .replace(/^JSON5: /, '')
+    .replace(/ at line \d+, column \d+:$/, '')
+    .replace(/ at \d+:\d+$/, '')
+    .replace(/ in JSON at position \d+(?: \(line \d+ column \d+\))?$/, '')
+}
+
+function parseDataFile(filePath: string, cache?: DataFileCache): Data {
+  const parse = (content: string) => parseDataContent(filePath, content)
+  return cache ? cache.read(filePath, parse) : parse(readFileSync(filePath, 'utf-8'))
+}
+
+function parseDataContent(filePath: string, content: string): Data {
   try {
-    if (filePath.endsWith('.json')) {
-      return JSON.parse(content) as Data
+    const parser = PARSERS[extname(filePath)]
+    if (parser) {
+      return (parser(content) as Data) ?? {}
     }
-    return (parseYaml(content) as Data) ?? {}
+    return (parseYaml(content, { customTags: DIRECTIVE_TAGS }) as Data) ?? {}
   } catch (e) {
-    throw new Error(`Failed to parse ${filePath}: ${(e as Error).message}`)
+    const location = errorLocation(e)
+    const where = location ? `${filePath}:${location.line}:${location.column}` : filePath
+    throw new Error(`Failed to parse ${where}: ${errorSummary(e)}`)
   }
 }
 
@@ -29,15 +230,20 @@ export function parseCentralFile(filePath: string): Data {
   return parseDataFile(filePath)
 }
 
-export function flattenToMap(data: Data, prefix = ''): Map<string, Data> {
+export function flattenToMap(
+  data: Data,
+  prefix = '',
+  extensions: ReadonlySet<string> = CONTENT_EXTENSIONS,
+  extensionless = false,
+): Map<string, Data> {
   const map = new Map<string, Data>()
   for (const [key, value] of Object.entries(data)) {
     if (typeof value !== 'object' || value === null || Array.isArray(value)) continue
     const fullKey = prefix ? `${prefix}/${key}` : key
-    if (isContentFile(key)) {
+    if (isEntryNode(key, value, extensions, extensionless)) {
       map.set(fullKey, value as Data)
     } else {
-      const nested = flattenToMap(value as Data, fullKey)
+      const nested = flattenToMap(value as Data, fullKey, extensions, extensionless)
       for (const [k, v] of nested) {
         map.set(k, v)
       }
@@ -46,74 +252,303 @@ export function flattenToMap(data: Data, prefix = ''): Map<string, Data> {
   return map
 }
 
-function* walkFrontmatterFiles(dir: string): Generator<{ dir: string; filePath: string; name: string }> {
-  for (const name of FRONTMATTER_FILENAMES) {
-    const filePath = join(dir, name)
-    if (existsSync(filePath)) {
-      yield { dir, filePath, name }
-      break
+/** How per-directory data files are discovered */
+export interface PerDirectoryOptions {
+  /** Filenames to look for in each directory, highest priority first */
+  filenames?: string[]
+  /**
+   * When a directory holds more than one of `filenames`: use only the
+   * first (`'first'`, default), merge all with earlier names winning
+   * (`'merge'`), or throw (`'error'`).
+   */
+  multiple?: 'first' | 'merge' | 'error'
+}
+
+function* walkFrontmatterFiles(
+  dir: string,
+  options: PerDirectoryOptions = {},
+  cache?: DataFileCache,
+): Generator<{ dir: string; filePath: string; name: string }> {
+  const listing = cache ? cache.listDir(dir) : listDir(dir)
+  if (!listing) return
+
+  const filenames = options.filenames ?? FRONTMATTER_FILENAMES
+  const found = filenames.filter((name) => listing.names.has(name))
+  if (found.length > 1 && options.multiple === 'error') {
+    throw new Error(`Multiple frontmatter files in ${dir}: ${found.join(', ')}`)
+  }
+  // Merge lowest priority first so earlier filenames win
+  const selected = options.multiple === 'merge' ? found.reverse() : found.slice(0, 1)
+  for (const name of selected) {
+    yield { dir, filePath: join(dir, name), name }
+  }
+
+  for (const name of listing.dirs) {
+    if (!name.startsWith('.') && name !== 'node_modules') {
+      yield* walkFrontmatterFiles(join(dir, name), options, cache)
     }
   }
+}
 
-  let entries: import('node:fs').Dirent[]
-  try {
-    entries = readdirSync(dir, { withFileTypes: true, encoding: 'utf-8' })
-  } catch {
-    return
+/** Which layer of the cascade a data file belongs to */
+export type SourceLayer = 'central' | 'provider' | 'per-dir'
+
+/** One parsed data file and the entry keys it contributes. */
+export interface FrontmatterSource {
+  /** Absolute path of the data file, or a `provider:<name>` label */
+  file: string
+  layer: SourceLayer
+  /** Entry keys (exact paths, patterns, `_defaults`) relative to the base path */
+  entries: Map<string, Data>
+  /** Base-relative directory the file scopes its keys under: a per-directory file's own, or a central `prefix` */
+  prefix?: string
+}
+
+function perDirEntries(data: Data, relDir: string): Map<string, Data> {
+  const map = new Map<string, Data>()
+  for (const [key, value] of Object.entries(data)) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) continue
+    const entryPath = relDir ? `${relDir}/${key}` : key
+    map.set(entryPath, value as Data)
   }
-  for (const entry of entries) {
-    if (entry.isDirectory() && !entry.name.startsWith('.') && entry.name !== 'node_modules') {
-      yield* walkFrontmatterFiles(join(dir, entry.name))
-    }
+  return map
+}
+
+function discoverPerDirSources(
+  basePath: string,
+  options?: PerDirectoryOptions,
+  cache?: DataFileCache,
+): FrontmatterSource[] {
+  const sources: FrontmatterSource[] = []
+  for (const { dir, filePath } of walkFrontmatterFiles(basePath, options, cache)) {
+    const prefix = toPosixPath(relative(basePath, dir))
+    sources.push({ file: filePath, layer: 'per-dir', entries: perDirEntries(parseDataFile(filePath, cache), prefix), prefix })
   }
+  return sources
 }
 
-export function discoverPerDirFiles(basePath: string): Map<string, Data> {
+export function discoverPerDirFiles(basePath: string, options?: PerDirectoryOptions): Map<string, Data> {
   const map = new Map<string, Data>()
-  for (const { dir, filePath } of walkFrontmatterFiles(basePath)) {
-    const data = parseDataFile(filePath)
-    const relDir = relative(basePath, dir)
-    for (const [key, value] of Object.entries(data)) {
-      if (typeof value !== 'object' || value === null || Array.isArray(value)) continue
-      const entryPath = relDir ? `${relDir}/${key}` : key
-      map.set(entryPath, value as Data)
+  for (const { entries } of discoverPerDirSources(basePath, options)) {
+    for (const [key, value] of entries) {
+      const existing = map.get(key)
+      map.set(key, existing ? deepMerge(existing, value) : value)
     }
   }
   return map
 }
 
+/** A central data file and the base-relative directory its keys are scoped to */
+export interface CentralFile {
+  file: string
+  prefix?: string
+}
+
+/** A central file path or glob pattern (relative to the Astro root), optionally scoped to a sub-prefix */
+export type CentralFileOption = string | { path: string; prefix?: string }
+
+/**
+ * Expand the `frontmatter` option into central files in merge order.
+ * Glob patterns expand to their matches in sorted order; plain paths are
+ * kept even when missing so they can be created later.
+ */
+export function resolveCentralFiles(
+  option: CentralFileOption | CentralFileOption[] | undefined,
+  rootDir: string,
+): CentralFile[] {
+  if (option === undefined) return []
+  const files: CentralFile[] = []
+  for (const item of Array.isArray(option) ? option : [option]) {
+    const { path, prefix } = typeof item === 'string' ? { path: item, prefix: undefined } : item
+    const matches = isGlobPattern(path)
+      ? globSync(path, { cwd: rootDir, absolute: true }).sort()
+      : [resolve(rootDir, path)]
+    for (const file of matches) {
+      files.push(prefix ? { file, prefix } : { file })
+    }
+  }
+  return files
+}
+
+/** Trim slashes so a prefix joins cleanly onto keys */
+export function normalizePrefix(prefix: string | undefined): string {
+  return prefix?.replace(/^\/+|\/+$/g, '') ?? ''
+}
+
+export function loadCentralFile(
+  { file, prefix }: CentralFile,
+  cache?: DataFileCache,
+  extensions?: ReadonlySet<string>,
+  extensionless?: boolean,
+): FrontmatterSource | undefined {
+  if (!existsSync(file)) return undefined
+  const scope = normalizePrefix(prefix)
+  const entries = flattenToMap(parseDataFile(file, cache), scope, extensions, extensionless)
+  return { file, layer: 'central', entries, prefix: scope }
+}
+
+/** Source file as shown in messages and reports: relative to the root, or the provider label */
+export function displayPath(file: string, rootDir: string): string {
+  return isAbsolute(file) ? toPosixPath(relative(rootDir, file)) : file
+}
+
 interface LoadMapOptions {
   centralFile?: string
+  /** Central files in merge order, later files winning; loaded after `centralFile` */
+  centralFiles?: CentralFile[]
   basePath: string
+  arrayMerge?: ArrayMergeOptions
+  /** Per-directory discovery settings, or `false` to skip discovery */
+  perDirectory?: PerDirectoryOptions | false
+  /** Reuse parsed files and directory listings from earlier loads */
+  cache?: DataFileCache
+  /** Extensions that make a key in a central file an entry key */
+  extensions?: ReadonlySet<string>
+  /** Let extensionless keys in a central file name entries (see `allowsExtensionlessKeys`) */
+  extensionless?: boolean
+}
+
+/** Parse every data file, central files first, then per-directory files in walk order. */
+export function loadFrontmatterSources(opts: LoadMapOptions): FrontmatterSource[] {
+  const sources: FrontmatterSource[] = []
+  const centralFiles: CentralFile[] = [
+    ...(opts.centralFile ? [{ file: opts.centralFile }] : []),
+    ...(opts.centralFiles ?? []),
+  ]
+  for (const centralFile of centralFiles) {
+    const source = loadCentralFile(centralFile, opts.cache, opts.extensions, opts.extensionless)
+    if (source) sources.push(source)
+  }
+  if (opts.perDirectory !== false && existsSync(opts.basePath)) {
+    sources.push(...discoverPerDirSources(opts.basePath, opts.perDirectory, opts.cache))
+  }
+  return sources
 }
 
 export function loadFrontmatterMap(opts: LoadMapOptions): Map<string, Data> {
-  const centralData = opts.centralFile ? parseCentralFile(opts.centralFile) : {}
-  const centralMap = flattenToMap(centralData)
-
-  const perDirMap = existsSync(opts.basePath)
-    ? discoverPerDirFiles(opts.basePath)
-    : new Map<string, Data>()
-
-  const merged = new Map<string, Data>(centralMap)
-  for (const [key, perDirValue] of perDirMap) {
-    const centralValue = merged.get(key)
-    if (centralValue) {
-      merged.set(key, deepMerge(centralValue, perDirValue))
-    } else {
-      merged.set(key, perDirValue)
+  const merged = new Map<string, Data>()
+  for (const { entries } of loadFrontmatterSources(opts)) {
+    for (const [key, value] of entries) {
+      const existing = merged.get(key)
+      merged.set(key, existing ? deepMerge(existing, value, opts.arrayMerge) : value)
     }
   }
   return merged
 }
 
+/** Count the literal (non-wildcard) characters in a pattern. */
+function patternSpecificity(pattern: string): number {
+  return pattern.replace(/\*\*|[*?]|\[[^\]]*\]|\{[^}]*\}/g, '').length
+}
+
+/** A single key from a single data file that applies to an entry. */
+export interface LookupLayer {
+  source: FrontmatterSource
+  key: string
+  data: Data
+}
+
+export interface LookupResult {
+  /** External data for the entry, with directives still wrapped */
+  data: Data
+  /** Every contributing key, in merge order */
+  layers: LookupLayer[]
+}
+
+export interface LookupOptions {
+  /** Other keys an entry path answers to, such as its entry id or slug */
+  aliases?: (relPath: string) => string[]
+  keyMatch?: KeyMatchOptions
+  /** Content file extensions that `keyMatch.ignoreExtension` drops */
+  extensions?: ReadonlySet<string>
+}
+
+/**
+ * Build a resolver that returns the external data for an entry path.
+ *
+ * Layers are merged broadest first: `_defaults` from each ancestor
+ * directory (shallowest first), then every glob pattern key matching the
+ * path in order of specificity, then the exact-path key, then exact keys
+ * for each of the path's aliases. Keys of equal rank merge in source order,
+ * so per-directory files win over central.
+ */
+export function createLookup(
+  sources: FrontmatterSource[],
+  arrayMerge?: ArrayMergeOptions,
+  { aliases, keyMatch = {}, extensions }: LookupOptions = {},
+): (relPath: string) => LookupResult {
+  const dirKey = (dir: string) => (keyMatch.ignoreCase ? dir.toLowerCase() : dir)
+  const defaults = new Map<string, LookupLayer[]>()
+  const exact = new Map<string, LookupLayer[]>()
+  const patterns: Array<{ specificity: number; isMatch: (path: string) => boolean; layer: LookupLayer }> = []
+  const add = (index: Map<string, LookupLayer[]>, key: string, layer: LookupLayer) => {
+    const list = index.get(key)
+    if (list) list.push(layer)
+    else index.set(key, [layer])
+  }
+  for (const source of sources) {
+    for (const [key, data] of source.entries) {
+      const layer = { source, key, data }
+      const dir = defaultsDir(key)
+      if (dir !== null) {
+        add(defaults, dirKey(dir), layer)
+      } else if (isGlobPattern(key)) {
+        const isMatch = picomatch(key, { nocase: keyMatch.ignoreCase })
+        patterns.push({ specificity: patternSpecificity(key), isMatch, layer })
+      } else {
+        add(exact, matchKey(key, keyMatch, extensions), layer)
+      }
+    }
+  }
+  patterns.sort((a, b) => a.specificity - b.specificity)
+
+  return (relPath) => {
+    const layers: LookupLayer[] = []
+    const segments = relPath.split('/').slice(0, -1)
+    for (let depth = 0; depth <= segments.length; depth++) {
+      layers.push(...(defaults.get(dirKey(segments.slice(0, depth).join('/'))) ?? []))
+    }
+    for (const { isMatch, layer } of patterns) {
+      if (isMatch(relPath)) layers.push(layer)
+    }
+    const keys = [relPath, ...aliases?.(relPath) ?? []].map((key) => matchKey(key, keyMatch, extensions))
+    for (const key of new Set(keys)) {
+      layers.push(...(exact.get(key) ?? []))
+    }
+
+    let data: Data = {}
+    for (const layer of layers) {
+      data = deepMerge(data, layer.data, arrayMerge)
+    }
+    return { data, layers }
+  }
+}
+
+/** Whether a path names a per-directory data file under `basePath`, whether or not it exists yet. */
+export function isPerDirectoryFile(
+  filePath: string,
+  basePath: string,
+  perDirectory?: PerDirectoryOptions | false,
+): boolean {
+  if (perDirectory === false) return false
+  const rel = relative(basePath, filePath)
+  if (rel.startsWith('..') || isAbsolute(rel)) return false
+  const dirs = rel.split(sep)
+  const name = dirs.pop()!
+  if (dirs.some((dir) => dir.startsWith('.') || dir === 'node_modules')) return false
+  return (perDirectory?.filenames ?? FRONTMATTER_FILENAMES).includes(name)
+}
+
 export function collectFrontmatterFilePaths(
   basePath: string,
-  centralFile?: string,
+  centralFile?: string | string[],
+  perDirectory?: PerDirectoryOptions | false,
+  cache?: DataFileCache,
 ): string[] {
-  const paths: string[] = []
-  if (centralFile && existsSync(centralFile)) paths.push(centralFile)
-  for (const { filePath } of walkFrontmatterFiles(basePath)) {
+  // Missing central files are watched too, so creating one triggers an `add`
+  const paths: string[] = [centralFile ?? []].flat()
+  if (perDirectory === false) return paths
+  for (const { filePath } of walkFrontmatterFiles(basePath, perDirectory, cache)) {
     paths.push(filePath)
   }
   return paths
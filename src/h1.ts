@@ -1,10 +1,89 @@
+import type { ExtractorFn, ExtractorResult } from './extractors.js'
+
+/**
+ * How the leading H1 is used: not at all (`off`), to fill the target field
+ * only (`title-only`), to fill it and strip the heading (`strip`), or to fill
+ * it and strip the heading only when it equals the entry's final `title`
+ * (`strip-if-matches-title`).
+ */
+export type H1Mode = 'off' | 'title-only' | 'strip' | 'strip-if-matches-title'
+
+export interface H1Options {
+  mode?: H1Mode
+  /** Data field the H1 text fills when no layer sets it (default `title`) */
+  field?: string
+  /** Data field for the H1 with its inline formatting rendered to HTML (off by default) */
+  htmlField?: string
+  /** Data field for the H1's slug, as Astro generates it for the heading id (off by default) */
+  slugField?: string
+}
+
+export type NormalizedH1Options = H1Options & Required<Pick<H1Options, 'mode' | 'field'>>
+
+export function normalizeH1Option(option: H1Mode | H1Options | undefined): NormalizedH1Options {
+  const { mode = 'strip', field = 'title', htmlField, slugField } =
+    typeof option === 'string' ? { mode: option } : option ?? {}
+  return { mode, field, htmlField, slugField }
+}
+
+/** Whether to remove an extracted H1 from an entry's body and HTML, given its final data. */
+export function shouldStripH1(options: NormalizedH1Options, h1Title: string, data: Record<string, unknown>): boolean {
+  if (options.mode === 'strip') return true
+  if (options.mode === 'strip-if-matches-title') return data.title === h1Title
+  return false
+}
+
 /**
- * Match a leading `# Title` line. The H1 must appear before any
- * non-blank content. Leading blank lines are allowed.
+ * An ATX heading line: up to three spaces of indentation and one `#`.
  *
- * Capture group 1 = raw heading text (may contain inline markdown).
+ * Capture group 1 = raw heading text (may contain inline markdown and a closing `#` sequence).
  */
-const H1_RE = /^(?:[^\S\n]*\n)*# (.+)\n?/
+const ATX_H1_RE = /^ {0,3}#(?:[ \t]+(.*))?$/
+const ATX_CLOSING_RE = /(?:^|[ \t]+)#+[ \t]*$/
+const SETEXT_H1_UNDERLINE_RE = /^ {0,3}=+[ \t]*$/
+
+/** Comments and tags that render nothing and may precede the H1, as opening and closing text */
+const SILENT_BLOCKS: Array<[open: string, close: string]> = [['<!--', '-->'], ['{/*', '*/}'], ['{%', '%}']]
+const MDX_STATEMENT_RE = /^(?:import|export)\s/
+
+/** Index of the line after the silent block starting at `index`, or `index` when none starts there. */
+function skipSilentBlock(lines: string[], index: number): number {
+  const line = lines[index].trim()
+  if (MDX_STATEMENT_RE.test(line)) {
+    // MDX statements run to the next blank line
+    let end = index + 1
+    while (end < lines.length && lines[end].trim() !== '') end++
+    return end
+  }
+  const block = SILENT_BLOCKS.find(([open]) => line.startsWith(open))
+  if (!block) return index
+  const [open, close] = block
+  if (line.includes(close, open.length)) return index + 1
+  let end = index + 1
+  while (end < lines.length && !lines[end].includes(close)) end++
+  return Math.min(end + 1, lines.length)
+}
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, (char) => HTML_ESCAPES[char])
+}
+
+/** Render bold, italic, code, images, and links to HTML, escaping everything else. */
+export function renderInlineMarkdown(text: string): string {
+  // Finished markup is set aside so emphasis markers in code and URLs stay literal
+  const kept: string[] = []
+  const keep = (markup: string) => `\0${kept.push(markup) - 1}\0`
+  return escapeHtml(text.trim())
+    .replace(/`([^`]+)`/g, (_, code: string) => keep(`<code>${code}</code>`))
+    .replace(/!\[([^\]]*)\]\(([^)\s]*)[^)]*\)/g, (_, alt: string, src: string) => keep(`<img src="${src}" alt="${alt}">`))
+    .replace(/\[([^\]]*)\]\(([^)\s]*)[^)]*\)/g, (_, label: string, href: string) => `${keep(`<a href="${href}">`)}${label}${keep('</a>')}`)
+    .replace(/(\*\*|__)(.*?)\1/g, '<strong>$2</strong>')
+    .replace(/(\*|_)(.*?)\1/g, '<em>$2</em>')
+    .replace(/~~(.*?)~~/g, '<del>$1</del>')
+    .replace(/\0(\d+)\0/g, (_, index: string) => kept[Number(index)])
+}
 
 /** Strip bold, italic, code, images, and links down to plain text. */
 function flattenInlineMarkdown(text: string): string {
@@ -18,20 +97,191 @@ function flattenInlineMarkdown(text: string): string {
     .trim()
 }
 
-const H1_HTML_RE = /<h1[^>]*>[\s\S]*?<\/h1>\n*/
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
 
-export function stripH1Html(html: string): string {
-  return html.replace(H1_HTML_RE, '')
+/**
+ * Visible text of an HTML fragment or flattened title, for comparing the two.
+ * Quotes, dashes and ellipses are folded so smartypants output matches the
+ * source it was rendered from.
+ */
+function headingText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(?:#(\d+)|#x([\da-f]+)|(\w+));/gi, (entity, dec, hex, name) =>
+      dec ? String.fromCodePoint(Number(dec)) : hex ? String.fromCodePoint(parseInt(hex, 16)) : HTML_ENTITIES[name] ?? entity)
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/…|\.\.\./g, '…')
+    .replace(/[–—]|-{2,}/g, '—')
+    .replace(/\s+/g, ' ')
+    .trim()
 }
 
+const H1_HTML_RE = /<h1\b[^>]*>([\s\S]*?)<\/h1>\n*/g
+
+/**
+ * Remove the `<h1>` whose text equals `title` from rendered HTML, leaving
+ * other headings alone. Without a title, the first `<h1>` is removed.
+ */
+export function stripH1Html(html: string, title?: string): string {
+  for (const match of html.matchAll(H1_HTML_RE)) {
+    if (title === undefined || headingText(match[1]) === headingText(title)) {
+      return html.slice(0, match.index) + html.slice(match.index + match[0].length)
+    }
+  }
+  return html
+}
+
+/** Drop the depth-1 heading whose text equals `title` from rendered heading metadata. */
+export function stripH1Heading<T extends { depth: number; text: string }>(headings: T[], title: string): T[] {
+  const index = findH1Heading(headings, title)
+  return index === -1 ? headings : [...headings.slice(0, index), ...headings.slice(index + 1)]
+}
+
+function findH1Heading(headings: Array<{ depth: number; text: string }>, title: string): number {
+  return headings.findIndex((heading) => heading.depth === 1 && headingText(heading.text) === headingText(title))
+}
+
+/**
+ * Find the leading H1, ATX (`# Title`, `# Title #`) or setext (`Title` over
+ * `===`). It must come before any content that renders; blank lines, MDX
+ * `import`/`export` statements, JSX and HTML comments, and Markdoc tags may
+ * precede it and stay in the body.
+ */
 export function extractH1(markdown: string): { title: string; body: string } | null {
-  const match = H1_RE.exec(markdown)
-  if (!match) return null
+  const h1 = findH1(markdown)
+  return h1 && { title: h1.title, body: h1.body }
+}
+
+/** The leading H1 as in `extractH1`, plus its raw markdown text. */
+function findH1(markdown: string): { raw: string; title: string; body: string } | null {
+  const lines = markdown.split('\n')
+  let start = 0
+  while (start < lines.length) {
+    if (lines[start].trim() === '') {
+      start++
+      continue
+    }
+    const next = skipSilentBlock(lines, start)
+    if (next === start) break
+    start = next
+  }
+  if (start === lines.length) return null
 
-  const rawTitle = match[1]
+  let rawTitle: string
+  let end: number
+  const atx = ATX_H1_RE.exec(lines[start].trimEnd())
+  if (atx) {
+    rawTitle = (atx[1] ?? '').replace(ATX_CLOSING_RE, '')
+    end = start + 1
+  } else {
+    // A setext heading is a paragraph whose last line is underlined with `=`
+    end = start
+    while (end < lines.length && lines[end].trim() !== '' && !SETEXT_H1_UNDERLINE_RE.test(lines[end])) end++
+    if (end === start || end === lines.length || !SETEXT_H1_UNDERLINE_RE.test(lines[end])) return null
+    if (NON_PROSE_RE.test(lines[start].trim())) return null
+    rawTitle = lines.slice(start, end).map((line) => line.trim()).join(' ')
+    end++
+  }
   const title = flattenInlineMarkdown(rawTitle)
-  // Remove the H1 line and at most one trailing blank line
-  const body = markdown.slice(match[0].length).replace(/^\n/, '')
+  if (!title) return null
+
+  // Remove the heading and at most one trailing blank line; keep what preceded it unless blank
+  const before = lines.slice(0, start)
+  const after = lines.slice(end)
+  if (after[0] === '') after.shift()
+  const body = (before.some((line) => line.trim() !== '') ? [...before, ...after] : after).join('\n')
+
+  return { raw: rawTitle, title, body }
+}
+
+/** Lines that open a non-prose block: headings, fences, lists, quotes, tables, HTML, MDX statements, Markdoc tags, rules */
+const NON_PROSE_RE = /^(?:#{1,6}(?:\s|$)|```|~~~|[-*+]\s|\d+[.)]\s|>|\||<|\{%|(?:import|export)\s|(?:[-*_]\s*){3,}$)/
+const FENCE_RE = /^(```|~~~)/
+const SETEXT_UNDERLINE_RE = /^(?:=+|-+)\s*$/
+/** A paragraph that is nothing but images is decoration, not prose */
+const IMAGES_ONLY_RE = /^(?:!\[[^\]]*\]\([^)]*\)\s*)+$/
+
+/** Shorten to at most `maxLength` characters on a word boundary, marking the cut with an ellipsis. */
+function truncateOnWord(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text
+  // Break at the last space within the limit, so the text before it plus the ellipsis fits
+  const cut = text.slice(0, maxLength)
+  const space = cut.lastIndexOf(' ')
+  return (space > 0 ? cut.slice(0, space) : cut.slice(0, maxLength - 1)).replace(/[\s,;:.!?-]+$/, '') + '…'
+}
+
+/**
+ * Plain text of the first prose paragraph after the leading H1, truncated
+ * to `maxLength` characters on a word boundary. Headings, code, lists,
+ * quotes, tables, HTML and MDX statements are skipped.
+ */
+export function extractDescription(markdown: string, maxLength = 160): string | null {
+  const lines = [...(extractH1(markdown)?.body ?? markdown).split('\n'), '']
+  let fence: string | null = null
+  let paragraph: string[] = []
+  for (let index = 0; index < lines.length; index++) {
+    const trimmed = lines[index].trim()
+    if (fence) {
+      if (trimmed.startsWith(fence)) fence = null
+      continue
+    }
+    if (paragraph.length > 0) {
+      if (SETEXT_UNDERLINE_RE.test(trimmed)) {
+        // The paragraph was a setext heading
+        paragraph = []
+        continue
+      }
+      if (trimmed && !NON_PROSE_RE.test(trimmed)) {
+        paragraph.push(trimmed)
+        continue
+      }
+      const text = flattenInlineMarkdown(paragraph.join(' '))
+      if (text && !IMAGES_ONLY_RE.test(paragraph.join(' '))) return truncateOnWord(text.replace(/\s+/g, ' '), maxLength)
+      paragraph = []
+    }
+    const next = trimmed ? skipSilentBlock(lines, index) : index
+    if (next > index) {
+      index = next - 1
+      continue
+    }
+    const opener = FENCE_RE.exec(trimmed)
+    if (opener) fence = opener[1]
+    else if (trimmed && !NON_PROSE_RE.test(trimmed)) paragraph.push(trimmed)
+  }
+  return null
+}
+
+/** Fill the target field from the leading H1 and strip the heading as the mode allows. */
+export function h1Extractor(options: NormalizedH1Options): ExtractorFn {
+  return ({ body, data }) => {
+    const h1 = findH1(body)
+    if (!h1) return undefined
+    const extracted: Record<string, unknown> = { [options.field]: h1.title }
+    if (options.htmlField) extracted[options.htmlField] = renderInlineMarkdown(h1.raw)
+    // Keep the slug Astro gave the heading's `id`, read before the heading is stripped
+    const { slugField } = options
+    const renderedData: ExtractorResult['renderedData'] = slugField
+      ? ({ headings }) => {
+        const index = findH1Heading(headings, h1.title)
+        return index === -1 ? undefined : { [slugField]: headings[index].slug }
+      }
+      : undefined
+    if (!shouldStripH1(options, h1.title, { ...extracted, ...data })) return { data: extracted, renderedData }
+    return {
+      data: extracted,
+      renderedData,
+      body: (text) => extractH1(text)?.body ?? text,
+      html: (html) => stripH1Html(html, h1.title),
+      headings: (headings) => stripH1Heading(headings, h1.title),
+    }
+  }
+}
 
-  return { title, body }
+/** Fill `description` from the first paragraph after the H1. */
+export function descriptionExtractor(maxLength: number): ExtractorFn {
+  return ({ body }) => {
+    const description = extractDescription(body, maxLength)
+    return description ? { data: { description } } : undefined
+  }
 }
@@ -1,20 +1,98 @@
 import { glob } from 'astro/loaders'
+import type { MarkdownHeading } from 'astro'
 import type { Loader } from 'astro/loaders'
-import { readFileSync } from 'node:fs'
-import { normalize, resolve, relative } from 'node:path'
+import type { ZodTypeAny } from 'astro/zod'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs'
+import { dirname, normalize, resolve, relative } from 'node:path'
 import { fileURLToPath } from 'node:url'
-import { loadFrontmatterMap, collectFrontmatterFilePaths } from './frontmatter-map.js'
-import { extractH1, stripH1Html } from './h1.js'
-import { deepMerge } from './merge.js'
+import { createDataFileCache } from './cache.js'
+import {
+  allowsExtensionlessKeys,
+  loadFrontmatterSources,
+  collectFrontmatterFilePaths,
+  createLookup,
+  isContentFile,
+  isPerDirectoryFile,
+  resolveContentExtensions,
+} from './frontmatter-map.js'
+import type { CentralFileOption, KeyMatchOptions, PerDirectoryOptions } from './frontmatter-map.js'
+import { applyTransforms, runExtractors, toExtractorSteps } from './extractors.js'
+import type { EntryTransforms, Extractor, ExtractorFn, ExtractorInput, ExtractorResult, ExtractorStep } from './extractors.js'
+import { descriptionExtractor, h1Extractor, normalizeH1Option } from './h1.js'
+import type { H1Mode, H1Options } from './h1.js'
+import { deepMerge, resolveDirectives } from './merge.js'
+import type { ArrayMergeOptions, ArrayMergeStrategy } from './merge.js'
+import { findAmbiguousKeys, findUnmatchedKeys, formatAmbiguousKey, formatUnmatchedKey } from './diagnostics.js'
+import { fingerprintData, fingerprintKey } from './fingerprint.js'
+import { frontmatterJsonSchema } from './json-schema.js'
+import { annotateSchemaError } from './locate.js'
+import { contentKey, contentSlug, toPosixPath } from './paths.js'
+import type { MatchBy } from './paths.js'
+import { provenanceKey, recordMergeStep, traceLayers } from './provenance.js'
+import type { FieldOrigin, Provenance } from './provenance.js'
+import { collectCentralWatchPaths, createCentralWatchMatcher, loadCentralSources } from './provider.js'
+import type {
+  FrontmatterOption,
+  FrontmatterProvider,
+  FrontmatterProviderFn,
+  ProviderContext,
+} from './provider.js'
 
 type GlobOpts = Parameters<typeof glob>[0]
 
 interface GlobFrontmatterOptions extends GlobOpts {
-  /** Path to centralized frontmatter YAML/JSON file (relative to Astro root) */
-  frontmatter?: string
+  /**
+   * Centralized frontmatter data file(s) relative to Astro root, or
+   * providers that compute entry data. An array of paths, glob patterns
+   * and providers is merged in order, later items winning.
+   */
+  frontmatter?: FrontmatterOption | FrontmatterOption[]
+  /** How arrays combine across merge layers: one strategy, or a default plus per-path overrides */
+  arrayMerge?: ArrayMergeStrategy | ArrayMergeOptions
+  /** Write a JSON report of where each entry field came from to this path (relative to Astro root) */
+  provenance?: string
+  /** Fail the build when a data file key matches no entry or several, instead of logging a warning */
+  strict?: boolean
+  /** Per-directory data file discovery: filenames and multi-file handling, or `false` to disable */
+  perDirectory?: PerDirectoryOptions | false
+  /**
+   * Write a JSON Schema for central data files, built from the collection's
+   * Zod schema, to `path`, and one for flat per-directory files to
+   * `perDirectoryPath` (both relative to Astro root)
+   */
+  jsonSchema?: { schema: ZodTypeAny; path: string; perDirectoryPath?: string }
+  /** How the leading H1 fills a data field and whether it is stripped from the body (default `'strip'` into `title`) */
+  h1?: H1Mode | H1Options
+  /** Fill a missing `description` from the first paragraph after the H1, cut to `maxLength` characters (default 160) */
+  description?: boolean | { maxLength?: number }
+  /**
+   * Also match exact data file keys against each entry's `id` (as the
+   * collection's `generateId` makes it) or its path slug, besides its path
+   */
+  matchBy?: MatchBy[]
+  /**
+   * Extensions of the entries keys name (`.md`, `.json`, ...). Defaults to
+   * the extensions `pattern` ends in, or `.md`, `.mdx` and `.mdoc`
+   */
+  extensions?: string[]
+  /** Compare exact keys with entry paths regardless of case or content extension */
+  keyMatch?: KeyMatchOptions
+  /** Derive fields and body, HTML or heading rewrites from each file's body, run in order after the built-in H1 and description */
+  extractors?: Array<Extractor | ExtractorFn>
+}
+
+const DESCRIPTION_LENGTH = 160
+
+function normalizeArrayMerge(option: GlobFrontmatterOptions['arrayMerge']): ArrayMergeOptions {
+  if (option === undefined) return {}
+  if (typeof option === 'string' || 'unionBy' in option) return { default: option }
+  return option
 }
 
 export function globFrontmatter(opts: GlobFrontmatterOptions): Loader {
+  // Parsed data files survive across loads, so dev reloads only re-parse what changed
+  const cache = createDataFileCache()
+
   return {
     name: 'glob-frontmatter',
     async load(context) {
@@ -23,19 +101,82 @@ export function globFrontmatter(opts: GlobFrontmatterOptions): Loader {
       const normalizedBase = normalize(base)
       const basePath = resolve(rootDir, normalizedBase)
 
-      const centralFile = opts.frontmatter
-        ? resolve(rootDir, opts.frontmatter)
+      // Glob hands parseData absolute paths but stores root-relative ones
+      const entryKey = (filePath: string) => contentKey(filePath, rootDir, basePath)
+      // Entry ids by content key, recorded as glob parses or looks up entries, for `matchBy: ['id']`
+      const entryIds = new Map<string, string>()
+      const matchBy = opts.matchBy ?? []
+      const aliases = (key: string) => [
+        ...matchBy.includes('id') && entryIds.has(key) ? [entryIds.get(key)!] : [],
+        ...matchBy.includes('slug') ? [contentSlug(key)] : [],
+      ]
+
+      const extensions = resolveContentExtensions(opts.pattern, opts.extensions)
+      const extensionless = allowsExtensionlessKeys(matchBy, opts.keyMatch)
+      const isCentralPath = createCentralWatchMatcher(opts.frontmatter, rootDir)
+      const isDataFile = (file: string) =>
+        isCentralPath(file) || isPerDirectoryFile(file, basePath, opts.perDirectory)
+      const arrayMerge = normalizeArrayMerge(opts.arrayMerge)
+      const h1Options = normalizeH1Option(opts.h1)
+      const descriptionLength = opts.description
+        ? (typeof opts.description === 'object' ? opts.description.maxLength : undefined) ?? DESCRIPTION_LENGTH
         : undefined
-      const fmMap = loadFrontmatterMap({ centralFile, basePath })
+      // The built-in H1 and description extractors run before the configured ones
+      const builtinSteps = (file: string): ExtractorStep[] => [
+        ...h1Options.mode !== 'off' ? [{ extract: h1Extractor(h1Options), origin: { layer: 'h1' as const, file } }] : [],
+        ...descriptionLength !== undefined
+          ? [{ extract: descriptionExtractor(descriptionLength), origin: { layer: 'body' as const, file } }]
+          : [],
+      ]
+      const hasExtractors = builtinSteps('').length > 0 || (opts.extractors?.length ?? 0) > 0
+      const transforms = new Map<string, EntryTransforms>()
+      const loadSources = async () => {
+        cache.beginLoad()
+        const loaded = [
+          ...await loadCentralSources(opts.frontmatter, { rootDir, basePath }, cache, extensions, extensionless),
+          ...loadFrontmatterSources({ basePath, perDirectory: opts.perDirectory, cache, extensions, extensionless }),
+        ]
+        cache.persist(context.meta)
+        return loaded
+      }
+      if (opts.jsonSchema) {
+        const { schema, path, perDirectoryPath } = opts.jsonSchema
+        const targets = [{ path, perDirectory: false }, ...perDirectoryPath ? [{ path: perDirectoryPath, perDirectory: true }] : []]
+        for (const target of targets) {
+          const schemaPath = resolve(rootDir, target.path)
+          const json = JSON.stringify(frontmatterJsonSchema(schema, { extensions, perDirectory: target.perDirectory }), null, 2) + '\n'
+          // Leave an unchanged file alone so editors and watchers don't see a write
+          if (!existsSync(schemaPath) || readFileSync(schemaPath, 'utf-8') !== json) {
+            mkdirSync(dirname(schemaPath), { recursive: true })
+            writeFileSync(schemaPath, json)
+          }
+        }
+      }
 
-      // Watch frontmatter files for dev mode hot reload
-      if (context.watcher) {
-        const filesToWatch = collectFrontmatterFilePaths(basePath, centralFile)
-        if (filesToWatch.length > 0) {
-          context.watcher.add(filesToWatch)
+      cache.restore(context.meta)
+      let sources = await loadSources()
+      let lookup = createLookup(sources, arrayMerge, { aliases, keyMatch: opts.keyMatch, extensions })
+      const entryPaths = new Set<string>()
+      const provenance: Record<string, Provenance> | undefined = opts.provenance ? {} : undefined
+      let loaded = false
+
+      const writeReport = () => {
+        if (!provenance || !opts.provenance) return
+        // Entries glob skipped as unchanged were traced on an earlier load
+        for (const entry of context.store.values()) {
+          const saved = context.meta.get(provenanceKey(entry.id))
+          if (entry.filePath && !provenance[entry.id] && saved) provenance[entry.id] = JSON.parse(saved) as Provenance
         }
+        const report = Object.fromEntries(Object.entries(provenance).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+        const reportPath = resolve(rootDir, opts.provenance)
+        mkdirSync(dirname(reportPath), { recursive: true })
+        writeFileSync(reportPath, JSON.stringify(report, null, 2) + '\n')
       }
 
+      /** Whether the external data merged into a stored entry differs from what it was parsed with */
+      const isStale = (id: string, filePath: string) =>
+        context.meta.get(fingerprintKey(id)) !== fingerprintData(lookup(entryKey(filePath)).data)
+
       const originalParseData = context.parseData.bind(context)
       const wrappedContext = Object.create(context, {
         parseData: {
@@ -43,36 +184,94 @@ export function globFrontmatter(opts: GlobFrontmatterOptions): Loader {
             props: { id: string; data: TData; filePath?: string },
           ) => {
             if (!props.filePath) return originalParseData(props)
+            // A pattern matching data file extensions also matches the data files; they are never entries
+            if (isDataFile(resolve(rootDir, props.filePath))) return props.data
 
-            const relPath = relative(normalizedBase, props.filePath)
-            const externalData = fmMap.get(relPath) ?? {}
+            const relPath = entryKey(props.filePath)
+            entryPaths.add(relPath)
+            entryIds.set(relPath, props.id)
+            const { data: externalData, layers } = lookup(relPath)
+            context.meta.set(fingerprintKey(props.id), fingerprintData(externalData))
 
-            const merged = deepMerge(externalData, props.data as Record<string, unknown>)
+            const merged = resolveDirectives(
+              deepMerge(externalData, props.data as Record<string, unknown>, arrayMerge),
+            )
 
-            // Extract H1 from file body as title if not already set
-            if (!merged.title) {
+            const { filePath } = props
+            const contentPath = toPosixPath(relative(rootDir, resolve(rootDir, filePath)))
+            const traceFields = () => {
+              const fields = traceLayers(layers, arrayMerge, rootDir)
+              recordMergeStep(fields, externalData, merged, { layer: 'file', file: contentPath })
+              return fields
+            }
+            if (provenance) provenance[props.id] = traceFields()
+
+            // Fill fields no layer set from the file body, in extractor order
+            let data = merged
+            if (hasExtractors) {
+              let body: string | undefined
               try {
-                const raw = readFileSync(resolve(rootDir, props.filePath), 'utf-8')
+                const raw = readFileSync(resolve(rootDir, filePath), 'utf-8')
                 // Skip frontmatter fences to get body
                 const fmMatch = /^---\n[\s\S]*?\n---\n?/.exec(raw)
-                const body = fmMatch ? raw.slice(fmMatch[0].length) : raw
-                const h1 = extractH1(body)
-                if (h1) {
-                  merged.title = h1.title
-                }
+                body = fmMatch ? raw.slice(fmMatch[0].length) : raw
               } catch {
-                // File read failed — skip H1 extraction
+                // File read failed — skip body extraction
+              }
+              if (body !== undefined) {
+                // The H1 and description only make sense in markdown
+                const steps = [
+                  ...isContentFile(contentPath) ? builtinSteps(contentPath) : [],
+                  ...toExtractorSteps(opts.extractors ?? [], contentPath),
+                ]
+                const extracted = await runExtractors(
+                  steps,
+                  { body, filePath: contentPath, id: props.id },
+                  merged,
+                  provenance?.[props.id],
+                )
+                data = extracted.data
+                transforms.set(props.id, extracted.transforms)
               }
             }
 
-            return originalParseData({ ...props, data: merged as TData })
+            if (provenance) context.meta.set(provenanceKey(props.id), JSON.stringify(provenance[props.id]))
+
+            try {
+              return await originalParseData({ ...props, data: data as TData })
+            } catch (error) {
+              annotateSchemaError(error, provenance?.[props.id] ?? traceFields(), rootDir, { sources, extensions, extensionless })
+              throw error
+            }
           },
         },
       })
 
-      // Wrap store.set to strip H1 from body and rendered HTML
+      // Wrap store.set to apply extractor transforms, such as stripping the H1, to body and rendered HTML
       const originalSet = context.store.set.bind(context.store)
       wrappedContext.store = Object.create(context.store, {
+        // Glob skips entries whose content digest is unchanged; hide the digest of
+        // entries whose external data changed so they are parsed again
+        get: {
+          value: (id: string) => {
+            const entry = context.store.get(id)
+            if (!entry?.filePath) return entry
+            entryIds.set(entryKey(entry.filePath), id)
+            // An entry parsed before the report was enabled has no provenance to report yet
+            const untraced = provenance !== undefined && !context.meta.has(provenanceKey(id))
+            if (!untraced && !isStale(id, entry.filePath)) return entry
+            return { ...entry, digest: undefined }
+          },
+        },
+        delete: {
+          value: (id: string) => {
+            context.meta.delete(fingerprintKey(id))
+            context.meta.delete(provenanceKey(id))
+            if (provenance) delete provenance[id]
+            context.store.delete(id)
+            if (loaded) writeReport()
+          },
+        },
         set: {
           value: <TData extends Record<string, unknown>>(entry: {
             id: string
@@ -81,36 +280,131 @@ export function globFrontmatter(opts: GlobFrontmatterOptions): Loader {
             rendered?: {
               html: string
               metadata?: {
-                headings?: Array<{ depth: number; slug: string; text: string }>
+                headings?: MarkdownHeading[]
                 [key: string]: unknown
               }
             }
             [key: string]: unknown
           }) => {
-            if (entry.body) {
-              const h1 = extractH1(entry.body)
-              if (h1) {
-                entry.body = h1.body
-                if (entry.rendered) {
-                  entry.rendered.html = stripH1Html(entry.rendered.html)
-                  if (entry.rendered.metadata?.headings) {
-                    const headings = entry.rendered.metadata.headings
-                    if (headings.length > 0 && headings[0].depth === 1) {
-                      entry.rendered.metadata.headings = headings.slice(1)
-                    }
-                  }
-                }
-              }
+            if (typeof entry.filePath === 'string' && isDataFile(resolve(rootDir, entry.filePath))) return false
+            const entryTransforms = transforms.get(entry.id)
+            if (entryTransforms) {
+              applyTransforms(entry, entryTransforms)
+              transforms.delete(entry.id)
             }
-            return originalSet(entry)
+            const stored = originalSet(entry)
+            // In dev, glob re-syncs changed files after the load; keep the report current
+            if (loaded) writeReport()
+            return stored
           },
         },
       })
 
-      const { frontmatter: _frontmatter, ...globOpts } = opts
+      const {
+        frontmatter: _frontmatter,
+        arrayMerge: _arrayMerge,
+        provenance: _provenance,
+        strict: _strict,
+        perDirectory: _perDirectory,
+        jsonSchema: _jsonSchema,
+        h1: _h1,
+        description: _description,
+        extractors: _extractors,
+        matchBy: _matchBy,
+        keyMatch: _keyMatch,
+        extensions: _extensions,
+        ...globOpts
+      } = opts
       await glob(globOpts).load(wrappedContext)
+
+      // Watch frontmatter files for dev mode hot reload, including ones created or deleted later
+      if (context.watcher) {
+        const watcher = context.watcher
+        const filesToWatch = collectFrontmatterFilePaths(
+          basePath,
+          collectCentralWatchPaths(opts.frontmatter, rootDir),
+          opts.perDirectory,
+          cache,
+        )
+        if (filesToWatch.length > 0) {
+          watcher.add(filesToWatch)
+        }
+        const reload = async (changedPath: string) => {
+          if (!isDataFile(changedPath)) return
+          try {
+            sources = await loadSources()
+          } catch (error) {
+            context.logger.error((error as Error).message)
+            return
+          }
+          lookup = createLookup(sources, arrayMerge, { aliases, keyMatch: opts.keyMatch, extensions })
+          // Glob only re-syncs content files it sees change; replay the event for
+          // every entry whose merged external data is now different
+          for (const entry of context.store.values()) {
+            if (entry.filePath && isStale(entry.id, entry.filePath)) {
+              watcher.emit('change', resolve(rootDir, entry.filePath))
+            }
+          }
+        }
+        watcher.on('change', reload)
+        watcher.on('add', reload)
+        watcher.on('unlink', reload)
+      }
+
+      // Entries glob skipped as unchanged never reach parseData; count them from the store
+      for (const entry of context.store.values()) {
+        if (!entry.filePath) continue
+        entryPaths.add(entryKey(entry.filePath))
+        entryIds.set(entryKey(entry.filePath), entry.id)
+      }
+      const unmatched = findUnmatchedKeys(sources, lookup, entryPaths)
+      if (unmatched.length > 0) {
+        const messages = unmatched.map((u) => formatUnmatchedKey(u, rootDir))
+        if (opts.strict) {
+          throw new Error(`Frontmatter keys do not match any entry:\n${messages.join('\n')}`)
+        }
+        for (const message of messages) context.logger.warn(message)
+      }
+      const ambiguous = findAmbiguousKeys(sources, entryPaths, opts.keyMatch, extensions)
+      if (ambiguous.length > 0) {
+        const messages = ambiguous.map((a) => formatAmbiguousKey(a, rootDir))
+        if (opts.strict) {
+          throw new Error(`Frontmatter keys match more than one entry:\n${messages.join('\n')}`)
+        }
+        for (const message of messages) context.logger.warn(message)
+      }
+
+      writeReport()
+      loaded = true
     },
   }
 }
 
-export type { GlobFrontmatterOptions }
+export { frontmatterJsonSchema }
+export { applyChanges, extractFrontmatter, inlineFrontmatter } from './migrate.js'
+export type { DataFileSchemaOptions } from './json-schema.js'
+export type { ExtractOptions, FileChange, InlineOptions } from './migrate.js'
+export { fixFrontmatter, lintFrontmatter } from './lint.js'
+export type { LintIssue, LintOptions, LintRule } from './lint.js'
+
+export type {
+  GlobFrontmatterOptions,
+  ArrayMergeOptions,
+  ArrayMergeStrategy,
+  CentralFileOption,
+  Extractor,
+  ExtractorFn,
+  ExtractorInput,
+  ExtractorResult,
+  FieldOrigin,
+  FrontmatterOption,
+  FrontmatterProvider,
+  FrontmatterProviderFn,
+  H1Mode,
+  H1Options,
+  KeyMatchOptions,
+  MatchBy,
+  PerDirectoryOptions,
+  ProviderContext,
+  Provenance,
+}
@@ -0,0 +1,86 @@
+import type { ZodTypeAny } from 'astro/zod'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { CONTENT_EXTENSIONS, DEFAULTS_KEY } from './frontmatter-map.js'
+import { FORCE, REPLACE, UNSET } from './merge.js'
+
+type JsonSchema = Record<string, unknown>
+
+/** Keys `flattenToMap` treats as entries: content files, `_defaults`, and glob patterns */
+function entryKeyPatterns(extensions: ReadonlySet<string>): string[] {
+  const names = [...extensions].map((ext) => ext.slice(1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  return [`\\.(${names.join('|')})$`, `(^|/)${DEFAULTS_KEY}$`, '[*?[{]']
+}
+
+/**
+ * Data files only supply part of an entry, so no field is required at any
+ * depth. Top-level fields also accept the merge directives.
+ */
+function toPartial(schema: unknown, directives = false): unknown {
+  if (Array.isArray(schema)) return schema.map((item) => toPartial(item))
+  if (typeof schema !== 'object' || schema === null) return schema
+  const result: JsonSchema = {}
+  for (const [key, value] of Object.entries(schema as JsonSchema)) {
+    if (key === 'required') continue
+    if (key === 'properties' && typeof value === 'object' && value !== null) {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, field]) => {
+          const partial = toPartial(field)
+          return [name, directives ? withDirectives(partial) : partial]
+        }),
+      )
+      continue
+    }
+    result[key] = toPartial(value)
+  }
+  return result
+}
+
+function withDirectives(field: unknown): JsonSchema {
+  const wrapped = (name: string) => ({
+    type: 'object',
+    properties: { [name]: field },
+    required: [name],
+    additionalProperties: false,
+  })
+  return { anyOf: [field, { const: UNSET }, wrapped(FORCE), wrapped(REPLACE)] }
+}
+
+export interface DataFileSchemaOptions {
+  /** Content extensions that make a key an entry key */
+  extensions?: ReadonlySet<string>
+  /** Describe a per-directory file, whose keys are all entries and never nest */
+  perDirectory?: boolean
+}
+
+/**
+ * JSON Schema for central or per-directory data files, built from a
+ * collection's Zod schema. In central files keys may nest by directory or
+ * use flat `dir/file.md` paths, as `flattenToMap` reads them; every entry
+ * key (content path, pattern or `_defaults`) is checked against the schema,
+ * and any other key may be an extensionless entry or a directory.
+ */
+export function frontmatterJsonSchema(
+  schema: ZodTypeAny,
+  { extensions = CONTENT_EXTENSIONS, perDirectory = false }: DataFileSchemaOptions = {},
+): JsonSchema {
+  const { $schema: _schema, ...entry } = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+    dateStrategy: ['format:date', 'format:date-time'],
+  }) as JsonSchema
+  const entryRef = { $ref: '#/definitions/entry' }
+  const header = {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: perDirectory ? 'Per-directory frontmatter data file' : 'Frontmatter data file',
+    type: 'object',
+  }
+  if (perDirectory) {
+    return { ...header, additionalProperties: entryRef, definitions: { entry: toPartial(entry, true) } }
+  }
+  return {
+    ...header,
+    patternProperties: Object.fromEntries(entryKeyPatterns(extensions).map((pattern) => [pattern, entryRef])),
+    // Any other key is an entry by id, slug or extensionless path, or a directory holding more keys
+    additionalProperties: { anyOf: [entryRef, { $ref: '#' }] },
+    definitions: { entry: toPartial(entry, true) },
+  }
+}
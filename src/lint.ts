@@ -0,0 +1,282 @@
+import { readFileSync } from 'node:fs'
+import { extname, resolve } from 'node:path'
+import { globSync } from 'tinyglobby'
+import { isMap, isScalar, LineCounter, parseDocument } from 'yaml'
+import type { Pair, YAMLMap } from 'yaml'
+import { findAmbiguousKeys, findUnmatchedKeys } from './diagnostics.js'
+import {
+  allowsExtensionlessKeys,
+  contentPattern,
+  createLookup,
+  DEFAULTS_KEY,
+  displayPath,
+  isEntryKey,
+  isEntryNode,
+  isGlobPattern,
+  loadFrontmatterSources,
+  parseCentralFile,
+  resolveCentralFiles,
+  resolveContentExtensions,
+} from './frontmatter-map.js'
+import type { CentralFileOption, FrontmatterSource, KeyMatchOptions, PerDirectoryOptions } from './frontmatter-map.js'
+import type { FileChange } from './migrate.js'
+import { slugAliases } from './paths.js'
+
+type Data = Record<string, unknown>
+
+/** Whether a key of a central file holds entry data rather than a directory */
+type EntryTest = (key: string, value: unknown) => boolean
+
+export type LintRule =
+  | 'duplicate-key'
+  | 'unmatched-key'
+  | 'non-object-entry'
+  | 'flat-nested-conflict'
+  | 'unsorted-keys'
+  | 'ambiguous-key'
+
+export interface LintIssue {
+  rule: LintRule
+  severity: 'error' | 'warning'
+  /** Data file, relative to the root */
+  file: string
+  line?: number
+  column?: number
+  message: string
+}
+
+export interface LintOptions {
+  /** Absolute path of the Astro root */
+  rootDir: string
+  /** Content directory relative to the root */
+  base: string
+  /** Content files relative to `base`, to check keys against */
+  pattern?: string | string[]
+  /** Central data files relative to the root */
+  frontmatter?: CentralFileOption | CentralFileOption[]
+  perDirectory?: PerDirectoryOptions | false
+  /**
+   * Also match exact keys against entry slugs, as the loader's `matchBy`
+   * does. Ids can't be matched, since a custom `generateId` only runs inside Astro.
+   */
+  matchBy?: Array<'slug'>
+  /** Compare keys with content paths regardless of case or extension, as the loader's `keyMatch` does */
+  keyMatch?: KeyMatchOptions
+  /** Extensions of the entries keys name, as the loader's `extensions` option; derived from `pattern` by default */
+  extensions?: string[]
+}
+
+const POSITIONED_EXTENSIONS = new Set(['.yml', '.yaml', '.json'])
+
+/** Canonical key order: `_defaults`, then patterns, then paths, each alphabetical */
+function keyRank(key: string): number {
+  if (key === DEFAULTS_KEY) return 0
+  return isGlobPattern(key) ? 1 : 2
+}
+
+export function compareKeys(a: string, b: string): number {
+  return keyRank(a) - keyRank(b) || (a < b ? -1 : a > b ? 1 : 0)
+}
+
+function isObject(value: unknown): value is Data {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function pairKey(pair: Pair): string {
+  return isScalar(pair.key) ? String(pair.key.value) : String(pair.key)
+}
+
+/** Position of every mapping key in a YAML or JSON file, keyed by its path joined with NUL */
+function keyPositions(file: string): Map<string, { line: number; column: number }> {
+  const positions = new Map<string, { line: number; column: number }>()
+  if (!POSITIONED_EXTENSIONS.has(extname(file))) return positions
+  const lineCounter = new LineCounter()
+  const doc = parseDocument(readFileSync(file, 'utf-8'), { lineCounter })
+  const walk = (node: unknown, path: string[]) => {
+    if (!isMap(node)) return
+    for (const pair of node.items) {
+      const keyPath = [...path, pairKey(pair)]
+      const range = isScalar(pair.key) ? pair.key.range : undefined
+      if (range) {
+        const { line, col } = lineCounter.linePos(range[0])
+        positions.set(keyPath.join('\0'), { line, column: col })
+      }
+      walk(pair.value, keyPath)
+    }
+  }
+  walk(doc.contents, [])
+  return positions
+}
+
+/**
+ * Walk the structural levels of a data file: directories and entry keys in
+ * a central file, entry keys only in a per-directory file. Entry data is
+ * not visited.
+ */
+function walkLevels(
+  data: Data,
+  nested: boolean,
+  isEntry: EntryTest,
+  visit: (level: Data, path: string[]) => void,
+  path: string[] = [],
+): void {
+  visit(data, path)
+  if (!nested) return
+  for (const [key, value] of Object.entries(data)) {
+    if (!isEntry(key, value) && isObject(value)) walkLevels(value, nested, isEntry, visit, [...path, key])
+  }
+}
+
+interface DataFile {
+  file: string
+  layer: FrontmatterSource['layer']
+  data: Data
+}
+
+function loadSources(options: LintOptions) {
+  const basePath = resolve(options.rootDir, options.base)
+  const extensions = resolveContentExtensions(options.pattern, options.extensions)
+  const extensionless = allowsExtensionlessKeys(options.matchBy, options.keyMatch)
+  const sources = loadFrontmatterSources({
+    basePath,
+    centralFiles: resolveCentralFiles(options.frontmatter, options.rootDir),
+    perDirectory: options.perDirectory,
+    extensions,
+    extensionless,
+  })
+  const files: DataFile[] = sources.map(({ file, layer }) => ({ file, layer, data: parseCentralFile(file) }))
+  const isEntry: EntryTest = (key, value) => isEntryNode(key, value, extensions, extensionless)
+  return { basePath, sources, files, extensions, extensionless, isEntry }
+}
+
+/** Check data files for keys the loader would ignore, override, or never match. */
+export function lintFrontmatter(options: LintOptions): LintIssue[] {
+  const { basePath, sources, files, extensions, extensionless, isEntry } = loadSources(options)
+  const issues: LintIssue[] = []
+  const positions = new Map(files.map(({ file }) => [file, keyPositions(file)]))
+  const report = (rule: LintRule, severity: LintIssue['severity'], file: string, path: string[], message: string) => {
+    const position = positions.get(file)?.get(path.join('\0'))
+    issues.push({ rule, severity, file: displayPath(file, options.rootDir), ...position, message })
+  }
+  // Path of a flattened entry key inside its file, which may nest it or scope it under a prefix
+  const entryKeyPath = (file: string, key: string): string[] => {
+    for (const joined of positions.get(file)?.keys() ?? []) {
+      const path = joined.split('\0')
+      const flat = path.join('/')
+      const named = extensionless || isEntryKey(path.at(-1)!, extensions)
+      if (named && (key === flat || key.endsWith(`/${flat}`))) return path
+    }
+    return []
+  }
+
+  for (const { file, layer, data } of files) {
+    const nested = layer === 'central'
+    const flattened = new Map<string, string[]>()
+    walkLevels(data, nested, isEntry, (level, path) => {
+      const keys = Object.keys(level)
+      for (const key of keys) {
+        const keyPath = [...path, key]
+        const value = level[key]
+        if (!isObject(value)) {
+          const kind = Array.isArray(value) ? 'an array' : value === null ? 'null' : `a ${typeof value}`
+          report('non-object-entry', 'error', file, keyPath, `"${keyPath.join('/')}" is ${kind}, not an object, and is ignored`)
+          continue
+        }
+        if (!nested || isEntry(key, value)) {
+          const entryKey = keyPath.join('/')
+          const earlier = flattened.get(entryKey)
+          if (earlier) {
+            const style = (p: string[]) => (p.length === 1 && p[0].includes('/') ? 'flat' : 'nested')
+            report('flat-nested-conflict', 'error', file, keyPath,
+              `"${entryKey}" is defined both as a ${style(earlier)} and a ${style(keyPath)} key; only one applies`)
+          } else {
+            flattened.set(entryKey, keyPath)
+          }
+        }
+      }
+      const sorted = [...keys].sort(compareKeys)
+      const index = keys.findIndex((key, i) => key !== sorted[i])
+      if (index !== -1) {
+        report('unsorted-keys', 'warning', file, [...path, keys[index]],
+          `Keys${path.length ? ` under "${path.join('/')}"` : ''} are not sorted; expected "${sorted[index]}" before "${keys[index]}"`)
+      }
+    })
+  }
+
+  const definedIn = new Map<string, FrontmatterSource>()
+  for (const source of sources) {
+    for (const key of source.entries.keys()) {
+      const first = definedIn.get(key)
+      if (!first) {
+        definedIn.set(key, source)
+      } else if (first !== source) {
+        report('duplicate-key', 'warning', source.file, entryKeyPath(source.file, key),
+          `"${key}" is also defined in ${displayPath(first.file, options.rootDir)}`)
+      }
+    }
+  }
+
+  const entryPaths = globSync(options.pattern ?? contentPattern(extensions), { cwd: basePath, ignore: ['**/node_modules/**'] })
+  const lookup = createLookup(sources, undefined, {
+    aliases: slugAliases(options.matchBy),
+    keyMatch: options.keyMatch,
+    extensions,
+  })
+  for (const { file, key, suggestion } of findUnmatchedKeys(sources, lookup, entryPaths)) {
+    const hint = suggestion ? ` (did you mean "${suggestion}"?)` : ''
+    report('unmatched-key', 'error', file, entryKeyPath(file, key), `"${key}" does not match any content file${hint}`)
+  }
+  for (const { file, key, paths } of findAmbiguousKeys(sources, entryPaths, options.keyMatch, extensions)) {
+    report('ambiguous-key', 'error', file, entryKeyPath(file, key), `"${key}" matches more than one content file: ${paths.join(', ')}`)
+  }
+
+  const fileOrder = new Map(files.map(({ file }, index) => [displayPath(file, options.rootDir), index]))
+  return issues.sort((a, b) =>
+    fileOrder.get(a.file)! - fileOrder.get(b.file)! || (a.line ?? 0) - (b.line ?? 0) || (a.column ?? 0) - (b.column ?? 0))
+}
+
+function sortYamlLevels(map: YAMLMap, nested: boolean, isEntry: EntryTest): void {
+  map.items.sort((a, b) => compareKeys(pairKey(a), pairKey(b)))
+  if (!nested) return
+  for (const pair of map.items) {
+    if (isMap(pair.value) && !isEntry(pairKey(pair), pair.value.toJSON())) {
+      sortYamlLevels(pair.value, nested, isEntry)
+    }
+  }
+}
+
+function sortDataLevels(data: Data, nested: boolean, isEntry: EntryTest): Data {
+  const sorted: Data = {}
+  for (const key of Object.keys(data).sort(compareKeys)) {
+    const value = data[key]
+    sorted[key] = nested && !isEntry(key, value) && isObject(value)
+      ? sortDataLevels(value, nested, isEntry)
+      : value
+  }
+  return sorted
+}
+
+/**
+ * Plan rewriting YAML and JSON data files with their keys in canonical
+ * order. YAML comments move with the keys they precede.
+ */
+export function fixFrontmatter(options: LintOptions): FileChange[] {
+  const changes: FileChange[] = []
+  const { files, isEntry } = loadSources(options)
+  for (const { file, layer } of files) {
+    const before = readFileSync(file, 'utf-8')
+    const nested = layer === 'central'
+    let after: string
+    if (extname(file) === '.json') {
+      after = JSON.stringify(sortDataLevels(JSON.parse(before), nested, isEntry), null, 2) + '\n'
+    } else if (['.yml', '.yaml'].includes(extname(file))) {
+      const doc = parseDocument(before)
+      if (isMap(doc.contents)) sortYamlLevels(doc.contents, nested, isEntry)
+      after = doc.toString()
+    } else {
+      continue
+    }
+    if (after !== before) changes.push({ file, before, after })
+  }
+  return changes
+}
@@ -0,0 +1,143 @@
+import { readFileSync } from 'node:fs'
+import { extname, resolve } from 'node:path'
+import { isMap, isScalar, LineCounter, parseDocument } from 'yaml'
+import type { Node as YamlNode, Pair } from 'yaml'
+import { isEntryNode } from './frontmatter-map.js'
+import type { FrontmatterSource } from './frontmatter-map.js'
+import { FORCE, REPLACE } from './merge.js'
+import type { FieldOrigin, Provenance } from './provenance.js'
+
+export interface SourceLocation {
+  file: string
+  line: number
+  column: number
+}
+
+/** Data file formats the `yaml` parser reads with positions (JSON is a subset of YAML) */
+const LOCATABLE_EXTENSIONS = new Set(['.yml', '.yaml', '.json'])
+
+function pairKey(pair: Pair): string {
+  return isScalar(pair.key) ? String(pair.key.value) : String(pair.key)
+}
+
+/** Find the mapping pair holding an entry key, nested directories included, with keys scoped under `prefix`. */
+function findEntryPair(
+  node: unknown,
+  entryKey: string,
+  prefix: string,
+  extensions?: ReadonlySet<string>,
+  extensionless?: boolean,
+): Pair | undefined {
+  if (!isMap(node)) return undefined
+  for (const pair of node.items) {
+    const key = pairKey(pair)
+    const fullKey = prefix ? `${prefix}/${key}` : key
+    if (fullKey === entryKey) return pair
+    if (!isEntryNode(key, isMap(pair.value) ? pair.value.toJSON() : pair.value, extensions, extensionless)) {
+      const found = findEntryPair(pair.value, entryKey, fullKey, extensions, extensionless)
+      if (found) return found
+    }
+  }
+  return undefined
+}
+
+export interface LocateOptions {
+  /** Base-relative directory the data file scopes its keys under (see `FrontmatterSource.prefix`) */
+  prefix?: string
+  /** Content extensions that make a key an entry key */
+  extensions?: ReadonlySet<string>
+  /** Whether extensionless keys may name entries, as when the data file was loaded */
+  extensionless?: boolean
+}
+
+/** Step through a `{ $force: ... }` or `{ $replace: ... }` wrapper written in JSON form */
+function unwrapDirective(node: unknown): unknown {
+  if (isMap(node) && node.items.length === 1 && [FORCE, REPLACE].includes(pairKey(node.items[0]))) {
+    return node.items[0].value
+  }
+  return node
+}
+
+/**
+ * Line and column of a field inside an entry of a YAML or JSON data file,
+ * or of its deepest enclosing key when the path leads into a value.
+ */
+export function locateField(
+  file: string,
+  entryKey: string,
+  fieldPath: string[],
+  { prefix = '', extensions, extensionless }: LocateOptions = {},
+): SourceLocation | undefined {
+  if (!LOCATABLE_EXTENSIONS.has(extname(file))) return undefined
+  let content: string
+  try {
+    content = readFileSync(file, 'utf-8')
+  } catch {
+    return undefined
+  }
+  const lineCounter = new LineCounter()
+  const doc = parseDocument(content, { lineCounter })
+  let pair = findEntryPair(doc.contents, entryKey, prefix, extensions, extensionless)
+  if (!pair) return undefined
+
+  for (const segment of fieldPath) {
+    const node = unwrapDirective(pair.value)
+    const next = isMap(node)
+      ? node.items.find((item) => pairKey(item) === segment)
+      : undefined
+    if (!next) break
+    pair = next
+  }
+  const range = (pair.key as YamlNode | null)?.range
+  if (!range) return undefined
+  const { line, col } = lineCounter.linePos(range[0])
+  return { file, line, column: col }
+}
+
+/** Origin of a dotted field path: its own, or that of the closest enclosing field with one */
+export function fieldOrigin(provenance: Provenance, path: string): { origin: FieldOrigin; path: string } | undefined {
+  const segments = path.split('.')
+  for (let i = segments.length; i > 0; i--) {
+    const prefix = segments.slice(0, i).join('.')
+    if (provenance[prefix]) return { origin: provenance[prefix], path: prefix }
+  }
+  return undefined
+}
+
+/** Dotted field paths of the issues listed in an Astro schema validation error */
+export function schemaIssuePaths(message: string): string[] {
+  return [...message.matchAll(/^\s*\*\*(.+?)\*\*: /gm)].map((match) => match[1])
+}
+
+/**
+ * Point a schema validation error at the data files that supplied its failing
+ * fields. Issues with fields set by the content file itself are left alone.
+ */
+export function annotateSchemaError(
+  error: unknown,
+  fields: Provenance,
+  rootDir: string,
+  { sources = [], extensions, extensionless }: Omit<LocateOptions, 'prefix'> & { sources?: FrontmatterSource[] } = {},
+): void {
+  if (!(error instanceof Error)) return
+  const notes: string[] = []
+  let first: SourceLocation | undefined
+  for (const path of schemaIssuePaths(error.message)) {
+    const found = fieldOrigin(fields, path)
+    if (!found || ['file', 'h1', 'body', 'extractor'].includes(found.origin.layer)) continue
+    const { origin } = found
+    const file = resolve(rootDir, origin.file)
+    const prefix = sources.find((source) => source.file === file)?.prefix
+    const location = origin.key && origin.layer !== 'provider'
+      ? locateField(file, origin.key, found.path.split('.'), { prefix, extensions, extensionless })
+      : undefined
+    first ??= location
+    const where = location ? `${origin.file}:${location.line}:${location.column}` : origin.file
+    notes.push(`  **${path}** is set in ${where}${origin.key ? ` under "${origin.key}"` : ''}`)
+  }
+  if (notes.length === 0) return
+
+  error.message = `${error.message.trimEnd()}\n${notes.join('\n')}\n`
+  // Astro reports `loc` as the error's file position; move it from the content file to the data file
+  if (first && 'loc' in error) error.loc = first
+}
@@ -1,19 +1,134 @@
 type Data = Record<string, unknown>
 
-export function deepMerge(target: Data, source: Data): Data {
+/**
+ * How to combine an array in the source with an array in the target:
+ * - `replace`: source array wins outright (default)
+ * - `append`: target items followed by source items
+ * - `prepend`: source items followed by target items
+ * - `union`: append, dropping items already present (compared by value)
+ * - `{ unionBy: key }`: objects with the same `key` value are deep-merged, others appended
+ */
+export type ArrayMergeStrategy = 'replace' | 'append' | 'prepend' | 'union' | { unionBy: string }
+
+export interface ArrayMergeOptions {
+  /** Strategy for arrays without a per-path override */
+  default?: ArrayMergeStrategy
+  /** Per-path overrides, keyed by dotted path (e.g. `tags`, `sidebar.badges`) */
+  paths?: Record<string, ArrayMergeStrategy>
+}
+
+/** Value that removes the key from the merged result */
+export const UNSET = '$unset'
+/** Wrapper key: `{ $replace: value }` replaces the subtree instead of deep-merging */
+export const REPLACE = '$replace'
+/** Wrapper key: `{ $force: value }` wins over later layers that don't also force */
+export const FORCE = '$force'
+
+function isPlainObject(value: unknown): value is Data {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isDirective(value: unknown, name: string): value is Data {
+  if (!isPlainObject(value)) return false
+  const keys = Object.keys(value)
+  return keys.length === 1 && keys[0] === name
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function mergeArrays(
+  target: unknown[],
+  source: unknown[],
+  strategy: ArrayMergeStrategy,
+  options: ArrayMergeOptions,
+  path: string,
+): unknown[] {
+  if (strategy === 'append') return [...target, ...source]
+  if (strategy === 'prepend') return [...source, ...target]
+  if (strategy === 'union') {
+    const result = [...target]
+    for (const item of source) {
+      if (!result.some((existing) => isSameValue(existing, item))) result.push(item)
+    }
+    return result
+  }
+  if (typeof strategy === 'object') {
+    const key = strategy.unionBy
+    const result = [...target]
+    for (const item of source) {
+      const index = isPlainObject(item) && key in item
+        ? result.findIndex((existing) => isPlainObject(existing) && isSameValue(existing[key], item[key]))
+        : -1
+      if (index === -1) {
+        result.push(item)
+      } else {
+        result[index] = mergeAt(result[index] as Data, item as Data, options, path)
+      }
+    }
+    return result
+  }
+  return source
+}
+
+function mergeValue(tVal: unknown, sVal: unknown, options: ArrayMergeOptions, path: string): unknown {
+  if (isDirective(tVal, REPLACE)) tVal = tVal[REPLACE]
+  if (isDirective(sVal, REPLACE)) return sVal[REPLACE]
+  if (isPlainObject(tVal) && isPlainObject(sVal)) {
+    return mergeAt(tVal, sVal, options, path)
+  }
+  if (Array.isArray(tVal) && Array.isArray(sVal)) {
+    const strategy = options.paths?.[path] ?? options.default ?? 'replace'
+    return mergeArrays(tVal, sVal, strategy, options, path)
+  }
+  return sVal
+}
+
+function mergeAt(target: Data, source: Data, options: ArrayMergeOptions, prefix: string): Data {
   const result: Data = { ...target }
   for (const key of Object.keys(source)) {
     if (key === '__proto__' || key === 'constructor') continue
+    const path = prefix ? `${prefix}.${key}` : key
     const tVal = result[key]
     const sVal = source[key]
-    if (
-      typeof tVal === 'object' && tVal !== null && !Array.isArray(tVal) &&
-      typeof sVal === 'object' && sVal !== null && !Array.isArray(sVal)
-    ) {
-      result[key] = deepMerge(tVal as Data, sVal as Data)
+    if (isDirective(sVal, FORCE)) {
+      const base = isDirective(tVal, FORCE) ? tVal[FORCE] : tVal
+      result[key] = { [FORCE]: mergeValue(base, sVal[FORCE], options, path) }
+    } else if (isDirective(tVal, FORCE)) {
+      continue
+    } else if (sVal === UNSET) {
+      delete result[key]
     } else {
-      result[key] = sVal
+      result[key] = mergeValue(tVal, sVal, options, path)
     }
   }
   return result
 }
+
+export function deepMerge(target: Data, source: Data, arrays: ArrayMergeOptions = {}): Data {
+  return mergeAt(target, source, arrays, '')
+}
+
+/**
+ * Unwrap `$force` and `$replace` directives and drop `$unset` keys left
+ * in a fully merged result.
+ */
+export function resolveDirectives(data: Data): Data {
+  const result: Data = {}
+  for (const [key, value] of Object.entries(data)) {
+    if (value === UNSET) continue
+    result[key] = resolveValue(value)
+  }
+  return result
+}
+
+function resolveValue(value: unknown): unknown {
+  if (isDirective(value, FORCE)) return resolveValue(value[FORCE])
+  if (isDirective(value, REPLACE)) return resolveValue(value[REPLACE])
+  if (isPlainObject(value)) return resolveDirectives(value)
+  if (Array.isArray(value)) return value.map(resolveValue)
+  return value
+}
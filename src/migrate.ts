@@ -0,0 +1,221 @@
+import { existsSync, mkdirSync, readFileSync, unlinkSync, writeFileSync } from 'node:fs'
+import { dirname, extname, join, posix, resolve } from 'node:path'
+import { globSync } from 'tinyglobby'
+import { isMap, parseDocument } from 'yaml'
+import type { Document } from 'yaml'
+import {
+  allowsExtensionlessKeys,
+  CONTENT_EXTENSIONS,
+  contentPattern,
+  createLookup,
+  displayPath,
+  isPerDirectoryFile,
+  loadCentralFile,
+  loadFrontmatterSources,
+  resolveCentralFiles,
+  resolveContentExtensions,
+} from './frontmatter-map.js'
+import type { CentralFileOption, FrontmatterSource, KeyMatchOptions, PerDirectoryOptions } from './frontmatter-map.js'
+import { deepMerge, resolveDirectives } from './merge.js'
+import type { ArrayMergeOptions } from './merge.js'
+import { slugAliases } from './paths.js'
+
+type Data = Record<string, unknown>
+
+/** A planned write: `before` is `null` for a new file, `after` is `null` for a deletion */
+export interface FileChange {
+  file: string
+  before: string | null
+  after: string | null
+}
+
+interface ScanOptions {
+  /** Absolute path of the Astro root */
+  rootDir: string
+  /** Content directory relative to the root */
+  base: string
+  /** Content files to process, relative to `base` */
+  pattern?: string | string[]
+}
+
+export interface ExtractOptions extends ScanOptions {
+  /** Top-level frontmatter keys to move out; all keys when omitted */
+  keys?: string[]
+  /** Write one central file, or a data file in each content directory */
+  to?: 'central' | 'per-directory'
+  /** Central file relative to the root (default `frontmatter.yml`), or per-directory filename */
+  file?: string
+  /** Central file layout: directories as nested keys, or flat `dir/file.md` keys */
+  layout?: 'nested' | 'flat'
+}
+
+export interface InlineOptions extends ScanOptions {
+  /** Central data files relative to the root */
+  frontmatter?: CentralFileOption | CentralFileOption[]
+  perDirectory?: PerDirectoryOptions | false
+  arrayMerge?: ArrayMergeOptions
+  /** Also match exact keys against entry slugs, as the loader's `matchBy` does; ids only exist inside Astro */
+  matchBy?: Array<'slug'>
+  /** Compare keys with content paths regardless of case or extension, as the loader's `keyMatch` does */
+  keyMatch?: KeyMatchOptions
+  /** Extensions of the entries keys name, as the loader's `extensions` option; derived from `pattern` by default */
+  extensions?: string[]
+  /** Also delete the data files once their data lives in the content files */
+  removeDataFiles?: boolean
+}
+
+// Only markdown carries frontmatter to move in and out
+const DEFAULT_PATTERN = contentPattern(CONTENT_EXTENSIONS)
+const DEFAULT_FILENAME = 'frontmatter.yml'
+const FRONTMATTER_RE = /^---\r?\n([\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/
+
+/** Split a content file into its YAML frontmatter (without fences) and body */
+export function splitFrontmatter(raw: string): { frontmatter: string | undefined; body: string } {
+  const match = FRONTMATTER_RE.exec(raw)
+  if (!match) return { frontmatter: undefined, body: raw }
+  return { frontmatter: match[1] ?? '', body: raw.slice(match[0].length) }
+}
+
+function joinFrontmatter(doc: Document, body: string): string {
+  if (!isMap(doc.contents) || doc.contents.items.length === 0) return body
+  return `---\n${doc.toString()}---\n${body}`
+}
+
+function readIfExists(file: string): string | null {
+  return existsSync(file) ? readFileSync(file, 'utf-8') : null
+}
+
+function scanContentFiles({ rootDir, base, pattern }: ScanOptions): { basePath: string; entries: string[] } {
+  const basePath = resolve(rootDir, base)
+  const entries = globSync(pattern ?? DEFAULT_PATTERN, { cwd: basePath, ignore: ['**/node_modules/**'] }).sort()
+  return { basePath, entries }
+}
+
+/** Set `data` as the entries of a YAML or JSON data file, keeping what else the file holds */
+function writeDataFile(file: string, entries: Array<{ path: string[]; data: Data }>): string {
+  const before = readIfExists(file)
+  if (extname(file) === '.json') {
+    const json: Data = before ? JSON.parse(before) : {}
+    for (const { path, data } of entries) {
+      let target = json
+      for (const key of path) target = (target[key] ??= {}) as Data
+      Object.assign(target, data)
+    }
+    return JSON.stringify(json, null, 2) + '\n'
+  }
+  if (!['.yml', '.yaml'].includes(extname(file))) {
+    throw new Error(`Only YAML and JSON data files can be written: ${file}`)
+  }
+  const doc = parseDocument(before ?? '')
+  for (const { path, data } of entries) {
+    for (const [key, value] of Object.entries(data)) doc.setIn([...path, key], value)
+  }
+  return doc.toString()
+}
+
+/**
+ * Plan moving frontmatter keys out of content files into a central file or
+ * per-directory files. Moved values replace any the data files already hold.
+ */
+export function extractFrontmatter(options: ExtractOptions): FileChange[] {
+  const { basePath, entries } = scanContentFiles(options)
+  const changes: FileChange[] = []
+  const byDataFile = new Map<string, Array<{ path: string[]; data: Data }>>()
+  const perDirectory = options.to === 'per-directory'
+  const centralFile = resolve(options.rootDir, options.file ?? DEFAULT_FILENAME)
+  // The loader would also discover it as a per-directory file, whose keys are never nested or scoped
+  if (!perDirectory && isPerDirectoryFile(centralFile, basePath)) {
+    throw new Error(
+      `${displayPath(centralFile, options.rootDir)} would be read as a per-directory file; `
+      + `choose a central file outside ${options.base} or a filename per-directory files don't use`,
+    )
+  }
+
+  for (const entry of entries) {
+    const file = join(basePath, entry)
+    const raw = readFileSync(file, 'utf-8')
+    const { frontmatter, body } = splitFrontmatter(raw)
+    if (frontmatter === undefined) continue
+    const doc = parseDocument(frontmatter)
+    const data = (doc.toJS() ?? {}) as Data
+    const moved: Data = {}
+    for (const key of options.keys ?? Object.keys(data)) {
+      if (!(key in data)) continue
+      moved[key] = data[key]
+      doc.delete(key)
+    }
+    if (Object.keys(moved).length === 0) continue
+
+    changes.push({ file, before: raw, after: joinFrontmatter(doc, body) })
+    const dataFile = perDirectory ? join(basePath, posix.dirname(entry), options.file ?? DEFAULT_FILENAME) : centralFile
+    const path = perDirectory
+      ? [posix.basename(entry)]
+      : options.layout === 'flat' ? [entry] : entry.split('/')
+    const list = byDataFile.get(dataFile) ?? []
+    list.push({ path, data: moved })
+    byDataFile.set(dataFile, list)
+  }
+
+  for (const [file, dataEntries] of [...byDataFile].sort(([a], [b]) => a.localeCompare(b))) {
+    changes.push({ file, before: readIfExists(file), after: writeDataFile(file, dataEntries) })
+  }
+  return changes
+}
+
+/**
+ * Plan the reverse of `extractFrontmatter`: write each entry's external data
+ * into its content file, so the collection no longer needs this loader.
+ * Fields already in a content file keep their merged value.
+ */
+export function inlineFrontmatter(options: InlineOptions): FileChange[] {
+  const { basePath, entries } = scanContentFiles(options)
+  const extensions = resolveContentExtensions(options.pattern, options.extensions)
+  const extensionless = allowsExtensionlessKeys(options.matchBy, options.keyMatch)
+  const sources: FrontmatterSource[] = [
+    ...resolveCentralFiles(options.frontmatter, options.rootDir).flatMap((c) => loadCentralFile(c, undefined, extensions, extensionless) ?? []),
+    ...loadFrontmatterSources({ basePath, perDirectory: options.perDirectory, extensions, extensionless }),
+  ]
+  const lookup = createLookup(sources, options.arrayMerge, {
+    aliases: slugAliases(options.matchBy),
+    keyMatch: options.keyMatch,
+    extensions,
+  })
+  const changes: FileChange[] = []
+
+  for (const entry of entries) {
+    const { data: external } = lookup(entry)
+    if (Object.keys(external).length === 0) continue
+    const file = join(basePath, entry)
+    const raw = readFileSync(file, 'utf-8')
+    const { frontmatter, body } = splitFrontmatter(raw)
+    const doc = parseDocument(frontmatter ?? '')
+    const data = (doc.toJS() ?? {}) as Data
+    const merged = resolveDirectives(deepMerge(external, data, options.arrayMerge))
+    for (const [key, value] of Object.entries(merged)) {
+      if (JSON.stringify(value) !== JSON.stringify(data[key])) doc.set(key, value)
+    }
+    // Fields the file unsets have no value left to keep
+    for (const key of Object.keys(data)) {
+      if (!(key in merged)) doc.delete(key)
+    }
+    const after = joinFrontmatter(doc, body)
+    if (after !== raw) changes.push({ file, before: raw, after })
+  }
+
+  if (options.removeDataFiles) {
+    for (const { file } of sources) changes.push({ file, before: readFileSync(file, 'utf-8'), after: null })
+  }
+  return changes
+}
+
+/** Write planned changes to disk */
+export function applyChanges(changes: FileChange[]): void {
+  for (const { file, after } of changes) {
+    if (after === null) {
+      unlinkSync(file)
+    } else {
+      mkdirSync(dirname(file), { recursive: true })
+      writeFileSync(file, after)
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import path from 'node:path'
+import { slug } from 'github-slugger'
+
+/** `node:path` or one of its platform variants, such as `path.win32` */
+type PathApi = typeof path
+
+/** Replace platform separators with `/`, the separator data file keys use. */
+export function toPosixPath(file: string, pathApi: PathApi = path): string {
+  return pathApi.sep === '/' ? file : file.split(pathApi.sep).join('/')
+}
+
+/**
+ * Lookup key of a content file: its path relative to `basePath`, with `/`
+ * separators. `filePath` may be absolute (as glob hands it to `parseData`)
+ * or relative to `rootDir` (as glob stores it).
+ */
+export function contentKey(filePath: string, rootDir: string, basePath: string, pathApi: PathApi = path): string {
+  return toPosixPath(pathApi.relative(basePath, pathApi.resolve(rootDir, filePath)), pathApi)
+}
+
+/**
+ * Slug of a content key as glob's default `generateId` builds it: each
+ * segment slugged with github-slugger, the extension dropped, and a
+ * trailing `/index` removed.
+ */
+export function contentSlug(key: string): string {
+  const withoutExtension = key.replace(/\.[^./]+$/, '')
+  return withoutExtension.split('/').map((segment) => slug(segment)).join('/').replace(/\/index$/, '')
+}
+
+/** Key forms, besides the path, that exact data file keys may use */
+export type MatchBy = 'id' | 'slug'
+
+/**
+ * Lookup aliases for tools that run outside Astro. Only slugs can be
+ * matched there: ids may come from a custom `generateId`, which only runs
+ * inside Astro.
+ */
+export function slugAliases(matchBy: Array<'slug'> | undefined): ((key: string) => string[]) | undefined {
+  return matchBy?.includes('slug') ? (key) => [contentSlug(key)] : undefined
+}
@@ -0,0 +1,68 @@
+import { displayPath } from './frontmatter-map.js'
+import type { LookupLayer } from './frontmatter-map.js'
+import { deepMerge, resolveDirectives } from './merge.js'
+import type { ArrayMergeOptions } from './merge.js'
+
+type Data = Record<string, unknown>
+
+/** Where a merged field value came from */
+export interface FieldOrigin {
+  layer: 'central' | 'provider' | 'per-dir' | 'h1' | 'body' | 'extractor' | 'file'
+  /** Data file or content file the value was read from */
+  file: string
+  /** Entry key inside the data file (exact path, pattern, or `_defaults`), or the extractor name */
+  key?: string
+}
+
+/** Origin of every leaf field of an entry, keyed by dotted path */
+export type Provenance = Record<string, FieldOrigin>
+
+/**
+ * `context.meta` key holding the provenance an entry was last parsed with,
+ * for reporting entries glob skips as unchanged.
+ */
+export function provenanceKey(id: string): string {
+  return `glob-frontmatter:provenance:${id}`
+}
+
+function collectLeaves(data: Data, prefix = '', leaves = new Map<string, unknown>()): Map<string, unknown> {
+  for (const [key, value] of Object.entries(data)) {
+    const path = prefix ? `${prefix}.${key}` : key
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      collectLeaves(value as Data, path, leaves)
+    } else {
+      leaves.set(path, value)
+    }
+  }
+  return leaves
+}
+
+/**
+ * Attribute every leaf that one merge step added or changed to `origin`,
+ * and forget leaves the step removed. Leaves the step left untouched keep
+ * their earlier origin, so forced values stay with the layer that forced them.
+ */
+export function recordMergeStep(provenance: Provenance, before: Data, after: Data, origin: FieldOrigin): void {
+  const previous = collectLeaves(resolveDirectives(before))
+  const next = collectLeaves(resolveDirectives(after))
+  for (const path of Object.keys(provenance)) {
+    if (!next.has(path)) delete provenance[path]
+  }
+  for (const [path, value] of next) {
+    if (!previous.has(path) || JSON.stringify(previous.get(path)) !== JSON.stringify(value)) {
+      provenance[path] = origin
+    }
+  }
+}
+
+/** Replay the external layers for one entry, attributing each field to its data file and key. */
+export function traceLayers(layers: LookupLayer[], arrayMerge: ArrayMergeOptions, rootDir: string): Provenance {
+  const provenance: Provenance = {}
+  let data: Data = {}
+  for (const { source, key, data: layerData } of layers) {
+    const next = deepMerge(data, layerData, arrayMerge)
+    recordMergeStep(provenance, data, next, { layer: source.layer, file: displayPath(source.file, rootDir), key })
+    data = next
+  }
+  return provenance
+}
@@ -0,0 +1,122 @@
+import { resolve } from 'node:path'
+import picomatch from 'picomatch'
+import {
+  flattenToMap,
+  isGlobPattern,
+  loadCentralFile,
+  normalizePrefix,
+  resolveCentralFiles,
+} from './frontmatter-map.js'
+import type { CentralFileOption, FrontmatterSource } from './frontmatter-map.js'
+import type { DataFileCache } from './cache.js'
+
+type Data = Record<string, unknown>
+
+export interface ProviderContext {
+  /** Absolute path of the Astro root */
+  rootDir: string
+  /** Absolute path of the collection's `base` directory */
+  basePath: string
+}
+
+/**
+ * Compute entry data in code. Return the same shape a central data file
+ * holds: nested or flat base-relative keys, patterns, and `_defaults`.
+ */
+export type FrontmatterProviderFn = (context: ProviderContext) => Data | Promise<Data>
+
+export interface FrontmatterProvider {
+  load: FrontmatterProviderFn
+  /** Label for diagnostics and provenance (defaults to the function name, or `anonymous` for a `load` method) */
+  name?: string
+  /** Scope every returned key under this base-relative directory */
+  prefix?: string
+  /** Files the provider reads (relative to Astro root); editing one reloads the collection in dev */
+  dependencies?: string[]
+}
+
+/** One item of the `frontmatter` option: a data file, glob, or provider */
+export type FrontmatterOption = CentralFileOption | FrontmatterProvider | FrontmatterProviderFn
+
+function toProvider(item: FrontmatterOption): FrontmatterProvider | undefined {
+  if (typeof item === 'function') return { load: item }
+  if (typeof item === 'object' && 'load' in item) return item
+  return undefined
+}
+
+function asList(option: FrontmatterOption | FrontmatterOption[] | undefined): FrontmatterOption[] {
+  if (option === undefined) return []
+  return Array.isArray(option) ? option : [option]
+}
+
+/** Load central files and providers in option order, awaiting providers as they come. */
+export async function loadCentralSources(
+  option: FrontmatterOption | FrontmatterOption[] | undefined,
+  context: ProviderContext,
+  cache?: DataFileCache,
+  extensions?: ReadonlySet<string>,
+  extensionless?: boolean,
+): Promise<FrontmatterSource[]> {
+  const sources: FrontmatterSource[] = []
+  for (const item of asList(option)) {
+    const provider = toProvider(item)
+    if (provider) {
+      const data = await provider.load(context)
+      // An object's `load` method is named `load`, which says nothing about the provider
+      const inferred = provider.load.name === 'load' ? '' : provider.load.name
+      const name = provider.name || inferred || 'anonymous'
+      sources.push({
+        file: `provider:${name}`,
+        layer: 'provider',
+        entries: flattenToMap(data ?? {}, normalizePrefix(provider.prefix), extensions, extensionless),
+      })
+      continue
+    }
+    for (const centralFile of resolveCentralFiles(item as CentralFileOption, context.rootDir)) {
+      const source = loadCentralFile(centralFile, cache, extensions, extensionless)
+      if (source) sources.push(source)
+    }
+  }
+  return sources
+}
+
+/** Every central file and provider dependency to watch, as absolute paths. */
+export function collectCentralWatchPaths(
+  option: FrontmatterOption | FrontmatterOption[] | undefined,
+  rootDir: string,
+): string[] {
+  const paths: string[] = []
+  for (const item of asList(option)) {
+    const provider = toProvider(item)
+    if (provider) {
+      paths.push(...(provider.dependencies ?? []).map((dep) => resolve(rootDir, dep)))
+    } else {
+      paths.push(...resolveCentralFiles(item as CentralFileOption, rootDir).map((c) => c.file))
+    }
+  }
+  return paths
+}
+
+/**
+ * Matcher for paths the central option refers to, including files a glob
+ * pattern would match once they are created.
+ */
+export function createCentralWatchMatcher(
+  option: FrontmatterOption | FrontmatterOption[] | undefined,
+  rootDir: string,
+): (file: string) => boolean {
+  const files = new Set<string>()
+  const patterns: string[] = []
+  for (const item of asList(option)) {
+    const provider = toProvider(item)
+    if (provider) {
+      for (const dep of provider.dependencies ?? []) files.add(resolve(rootDir, dep))
+      continue
+    }
+    const { path } = typeof item === 'string' ? { path: item } : (item as Exclude<CentralFileOption, string>)
+    if (isGlobPattern(path)) patterns.push(resolve(rootDir, path))
+    else files.add(resolve(rootDir, path))
+  }
+  const isMatch = patterns.length > 0 ? picomatch(patterns) : () => false
+  return (file) => files.has(file) || isMatch(file)
+}
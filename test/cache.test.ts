@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest'
+import { mkdirSync, mkdtempSync, utimesSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { CACHE_META_KEY, createDataFileCache, listDir } from '../src/cache.js'
+
+function tempDir(): string {
+  return mkdtempSync(join(tmpdir(), 'fm-cache-'))
+}
+
+function writeWithMtime(file: string, content: string, mtime: number): void {
+  writeFileSync(file, content)
+  utimesSync(file, mtime, mtime)
+}
+
+describe('createDataFileCache', () => {
+  it('parses a file once while it is unchanged', () => {
+    const file = join(tempDir(), 'frontmatter.yml')
+    writeWithMtime(file, 'a: 1', 1000)
+    const cache = createDataFileCache()
+    const parse = vi.fn(() => ({ a: 1 }))
+
+    cache.beginLoad()
+    expect(cache.read(file, parse)).toEqual({ a: 1 })
+    expect(cache.parsed.has(file)).toBe(true)
+
+    cache.beginLoad()
+    expect(cache.read(file, parse)).toEqual({ a: 1 })
+    expect(parse).toHaveBeenCalledTimes(1)
+    expect(cache.parsed.size).toBe(0)
+  })
+
+  it('hands out copies that callers may mutate', () => {
+    const file = join(tempDir(), 'frontmatter.yml')
+    writeWithMtime(file, 'tags: [a]', 1000)
+    const cache = createDataFileCache()
+    const parse = () => ({ 'a.md': { tags: ['a'] } })
+
+    const first = cache.read(file, parse) as { 'a.md': { tags: string[] } }
+    first['a.md'].tags.push('mutated')
+    expect(cache.read(file, parse)).toEqual({ 'a.md': { tags: ['a'] } })
+  })
+
+  it('re-parses when the content changes', () => {
+    const file = join(tempDir(), 'frontmatter.yml')
+    writeWithMtime(file, 'a: 1', 1000)
+    const cache = createDataFileCache()
+    cache.read(file, () => ({ a: 1 }))
+
+    writeWithMtime(file, 'a: 22', 2000)
+    cache.beginLoad()
+    expect(cache.read(file, (content) => ({ content }))).toEqual({ content: 'a: 22' })
+    expect(cache.parsed.has(file)).toBe(true)
+  })
+
+  it('skips re-parsing when only the mtime changes', () => {
+    const file = join(tempDir(), 'frontmatter.yml')
+    writeWithMtime(file, 'a: 1', 1000)
+    const cache = createDataFileCache()
+    const parse = vi.fn(() => ({ a: 1 }))
+    cache.read(file, parse)
+
+    utimesSync(file, 3000, 3000)
+    cache.read(file, parse)
+    expect(parse).toHaveBeenCalledTimes(1)
+  })
+
+  it('reuses a directory listing until the directory changes', () => {
+    const dir = tempDir()
+    mkdirSync(join(dir, 'guides'))
+    utimesSync(dir, 1000, 1000)
+    const cache = createDataFileCache()
+    const first = cache.listDir(dir)!
+    expect(first.dirs).toEqual(['guides'])
+    expect(cache.listDir(dir)).toBe(first)
+
+    writeFileSync(join(dir, 'frontmatter.yml'), 'a: 1')
+    utimesSync(dir, 2000, 2000)
+    expect(cache.listDir(dir)!.names.has('frontmatter.yml')).toBe(true)
+  })
+
+  it('returns undefined for a missing directory', () => {
+    expect(createDataFileCache().listDir('/nonexistent/dir')).toBeUndefined()
+  })
+
+  it('persists seen files to meta and restores them in a new cache', () => {
+    const dir = tempDir()
+    const kept = join(dir, 'kept.yml')
+    const dropped = join(dir, 'dropped.yml')
+    writeWithMtime(kept, 'a: 1', 1000)
+    writeWithMtime(dropped, 'b: 1', 1000)
+    const meta = new Map<string, string>()
+
+    const first = createDataFileCache()
+    first.read(kept, () => ({ a: 1 }))
+    first.read(dropped, () => ({ b: 1 }))
+    first.beginLoad()
+    first.read(kept, () => ({ a: 1 }))
+    first.persist(meta)
+    expect(Object.keys(JSON.parse(meta.get(CACHE_META_KEY)!).files)).toEqual([kept])
+
+    const second = createDataFileCache()
+    second.restore(meta)
+    const parse = vi.fn(() => ({ a: 1 }))
+    expect(second.read(kept, parse)).toEqual({ a: 1 })
+    expect(parse).not.toHaveBeenCalled()
+  })
+
+  it('does not persist data that would not survive JSON', () => {
+    const file = join(tempDir(), 'frontmatter.toml')
+    writeWithMtime(file, 'd = 2024-01-01', 1000)
+    const meta = new Map<string, string>()
+    const cache = createDataFileCache()
+    cache.read(file, () => ({ d: new Date('2024-01-01') }))
+    cache.persist(meta)
+    expect(JSON.parse(meta.get(CACHE_META_KEY)!).files).toEqual({})
+  })
+
+  it('ignores corrupt or outdated persisted caches', () => {
+    const cache = createDataFileCache()
+    cache.restore(new Map([[CACHE_META_KEY, '{not json']]))
+    cache.restore(new Map([[CACHE_META_KEY, JSON.stringify({ version: 0, files: { '/x': {} } })]]))
+    const file = join(tempDir(), 'x.yml')
+    writeWithMtime(file, 'a: 1', 1000)
+    const parse = vi.fn(() => ({ a: 1 }))
+    cache.read(file, parse)
+    expect(parse).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('listDir', () => {
+  it('lists names and subdirectories', () => {
+    const dir = tempDir()
+    mkdirSync(join(dir, 'sub'))
+    writeFileSync(join(dir, 'file.yml'), '')
+    const listing = listDir(dir)!
+    expect([...listing.names].sort()).toEqual(['file.yml', 'sub'])
+    expect(listing.dirs).toEqual(['sub'])
+  })
+})
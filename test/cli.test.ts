@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { main } from '../src/cli.js'
+
+function makeSite(): string {
+  const root = mkdtempSync(join(tmpdir(), 'fm-cli-'))
+  mkdirSync(join(root, 'docs'))
+  writeFileSync(join(root, 'docs/index.md'), '---\ntitle: Home\n---\nBody\n')
+  return root
+}
+
+function capture() {
+  const out: string[] = []
+  const err: string[] = []
+  return { out, err, io: { stdout: (text: string) => out.push(text), stderr: (text: string) => err.push(text) } }
+}
+
+describe('cli', () => {
+  it('prints a diff in dry-run mode without writing', async () => {
+    const root = makeSite()
+    const { out, io } = capture()
+    const code = await main(['extract', '--root', root, '--base', 'docs', '--dry-run'], io)
+
+    expect(code).toBe(0)
+    expect(out.join('')).toBe(
+      '--- a/docs/index.md\n+++ b/docs/index.md\n@@ -1,4 +1,1 @@\n----\n-title: Home\n----\n Body\n'
+      + '--- /dev/null\n+++ b/frontmatter.yml\n@@ -0,0 +1,2 @@\n+index.md:\n+  title: Home\n',
+    )
+    expect(existsSync(join(root, 'frontmatter.yml'))).toBe(false)
+  })
+
+  it('writes files and lists them', async () => {
+    const root = makeSite()
+    const { out, io } = capture()
+    await main(['extract', '--root', root, '--base', 'docs', '--to', 'per-directory'], io)
+
+    expect(out).toEqual(['updated docs/index.md\n', 'created docs/frontmatter.yml\n'])
+    expect(readFileSync(join(root, 'docs/index.md'), 'utf-8')).toBe('Body\n')
+
+    out.length = 0
+    await main(['inline', '--root', root, '--base', 'docs', '--remove-data-files'], io)
+    expect(out).toEqual(['updated docs/index.md\n', 'deleted docs/frontmatter.yml\n'])
+    expect(readFileSync(join(root, 'docs/index.md'), 'utf-8')).toBe('---\ntitle: Home\n---\nBody\n')
+  })
+
+  it('rejects unknown commands and missing options', async () => {
+    const { err, io } = capture()
+    expect(await main(['move', '--base', 'docs'], io)).toBe(1)
+    expect(err[0]).toMatch(/^Unknown command: move/)
+    expect(await main(['extract'], io)).toBe(1)
+    expect(err[1]).toBe('Missing required option --base\n')
+    expect(await main(['extract', '--base', 'docs', '--layout', 'tree'], io)).toBe(1)
+    expect(err[2]).toBe('Unknown --layout: tree\n')
+    expect(await main(['lint', '--base', 'docs', '--match-by', 'id,slug'], io)).toBe(1)
+    expect(err[3]).toMatch(/^--match-by id is not supported/)
+  })
+
+  it('lints data files and fails on errors', async () => {
+    const root = makeSite()
+    writeFileSync(join(root, 'docs/frontmatter.yml'), 'index.md:\n  title: Home\nabout.md:\n  title: About\n')
+    const { out, io } = capture()
+
+    expect(await main(['lint', '--root', root, '--base', 'docs'], io)).toBe(1)
+    expect(out).toEqual([
+      'docs/frontmatter.yml:1:1 warning Keys are not sorted; expected "about.md" before "index.md" (unsorted-keys)\n',
+      'docs/frontmatter.yml:3:1 error "about.md" does not match any content file (unmatched-key)\n',
+    ])
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { createLookup } from '../src/frontmatter-map.js'
+import type { FrontmatterSource } from '../src/frontmatter-map.js'
+import { findAmbiguousKeys, findUnmatchedKeys, formatAmbiguousKey, formatUnmatchedKey } from '../src/diagnostics.js'
+
+const central: FrontmatterSource = {
+  file: '/site/frontmatter.yml',
+  layer: 'central',
+  entries: new Map([
+    ['guides/installation.md', { title: 'Installation' }],
+    ['components/accordion.md', { title: 'Accordion' }],
+    ['components/_defaults', { author: 'Team' }],
+    ['blog/**/*.md', { layout: 'post' }],
+  ]),
+}
+const perDir: FrontmatterSource = {
+  file: '/site/docs/guides/frontmatter.yml',
+  layer: 'per-dir',
+  entries: new Map([['guides/installation.md', { sidebar: { order: 1 } }]]),
+}
+
+describe('findUnmatchedKeys', () => {
+  const sources = [central, perDir]
+  const lookup = createLookup(sources)
+
+  it('reports keys no entry resolved to, with their data file', () => {
+    const unmatched = findUnmatchedKeys(sources, lookup, ['guides/installation.md'])
+    expect(unmatched.map((u) => [u.file, u.key])).toEqual([
+      ['/site/frontmatter.yml', 'components/accordion.md'],
+      ['/site/frontmatter.yml', 'components/_defaults'],
+      ['/site/frontmatter.yml', 'blog/**/*.md'],
+    ])
+  })
+
+  it('counts pattern and _defaults keys as used when they match', () => {
+    const unmatched = findUnmatchedKeys(sources, lookup, [
+      'guides/installation.md',
+      'components/accordion.md',
+      'blog/2024/post.md',
+    ])
+    expect(unmatched).toEqual([])
+  })
+
+  it('tracks the same key separately per data file', () => {
+    const unmatched = findUnmatchedKeys([perDir], createLookup([perDir]), [])
+    expect(unmatched).toEqual([{ file: '/site/docs/guides/frontmatter.yml', key: 'guides/installation.md' }])
+  })
+
+  it('suggests a close entry path for likely typos', () => {
+    const unmatched = findUnmatchedKeys(sources, lookup, [
+      'guides/installation.md',
+      'components/accordions.md',
+      'blog/post.md',
+    ])
+    expect(unmatched).toEqual([
+      { file: '/site/frontmatter.yml', key: 'components/accordion.md', suggestion: 'components/accordions.md' },
+    ])
+  })
+
+  it('does not suggest distant paths', () => {
+    const unmatched = findUnmatchedKeys([central], createLookup([central]), ['reference/api.md'])
+    expect(unmatched.every((u) => u.suggestion === undefined)).toBe(true)
+  })
+})
+
+describe('formatUnmatchedKey', () => {
+  it('shows the data file relative to the root and the suggestion', () => {
+    expect(formatUnmatchedKey(
+      { file: '/site/frontmatter.yml', key: 'a/accordion.md', suggestion: 'a/accordions.md' },
+      '/site',
+    )).toBe('frontmatter.yml: "a/accordion.md" does not match any entry (did you mean "a/accordions.md"?)')
+  })
+
+  it('omits the hint without a suggestion', () => {
+    expect(formatUnmatchedKey({ file: '/site/docs/frontmatter.yml', key: 'x.md' }, '/site'))
+      .toBe('docs/frontmatter.yml: "x.md" does not match any entry')
+  })
+})
+
+describe('findAmbiguousKeys', () => {
+  const paths = ['guides/installation.md', 'guides/installation.mdx', 'README.md', 'readme.md', 'guides/other.md']
+
+  it('reports exact keys several paths match once extension or case is ignored', () => {
+    expect(findAmbiguousKeys([central], paths, { ignoreExtension: true })).toEqual([
+      { file: '/site/frontmatter.yml', key: 'guides/installation.md', paths: ['guides/installation.md', 'guides/installation.mdx'] },
+    ])
+    const caseOnly: FrontmatterSource = { file: '/site/f.yml', layer: 'central', entries: new Map([['ReadMe.md', {}]]) }
+    expect(findAmbiguousKeys([caseOnly], paths, { ignoreCase: true })).toEqual([
+      { file: '/site/f.yml', key: 'ReadMe.md', paths: ['README.md', 'readme.md'] },
+    ])
+  })
+
+  it('reports nothing with exact matching', () => {
+    expect(findAmbiguousKeys([central], paths)).toEqual([])
+  })
+
+  it('formats the matching paths', () => {
+    expect(formatAmbiguousKey({ file: '/site/f.yml', key: 'a', paths: ['a.md', 'a.mdx'] }, '/site'))
+      .toBe('f.yml: "a" matches more than one entry: a.md, a.mdx')
+  })
+})
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { applyTransforms, runExtractors, toExtractorSteps } from '../src/extractors.js'
+import type { ExtractorFn } from '../src/extractors.js'
+import type { Provenance } from '../src/provenance.js'
+
+const input = { body: 'One two three.\n\n<!-- more -->\n\nRest.', filePath: 'docs/a.md', id: 'a' }
+
+const wordCount: ExtractorFn = ({ body }) => ({ data: { words: body.split(/\s+/).filter(Boolean).length } })
+
+describe('toExtractorSteps', () => {
+  it('names extractors by option, function name, or position', () => {
+    const steps = toExtractorSteps([wordCount, { name: 'excerpt', extract: () => undefined }, () => undefined], 'docs/a.md')
+    expect(steps.map((step) => step.origin)).toEqual([
+      { layer: 'extractor', file: 'docs/a.md', key: 'wordCount' },
+      { layer: 'extractor', file: 'docs/a.md', key: 'excerpt' },
+      { layer: 'extractor', file: 'docs/a.md', key: 'extractors[2]' },
+    ])
+  })
+})
+
+describe('runExtractors', () => {
+  it('fills only fields no layer or earlier extractor set', async () => {
+    const steps = toExtractorSteps([
+      () => ({ data: { cover: { src: 'a.png', alt: 'A' }, title: 'Extracted' } }),
+      () => ({ data: { cover: { src: 'b.png' }, draft: true } }),
+    ], 'docs/a.md')
+    const { data } = await runExtractors(steps, input, { title: 'Set', cover: { src: '' } })
+    expect(data).toEqual({ title: 'Set', cover: { src: 'a.png', alt: 'A' }, draft: true })
+  })
+
+  it('passes the data filled so far to later extractors', async () => {
+    const steps = toExtractorSteps([
+      wordCount,
+      async ({ data }) => ({ data: { readingTime: Math.ceil((data.words as number) / 200) } }),
+    ], 'docs/a.md')
+    expect((await runExtractors(steps, input, {})).data).toEqual({ words: 7, readingTime: 1 })
+  })
+
+  it('attributes filled fields to the extractor', async () => {
+    const provenance: Provenance = { title: { layer: 'file', file: 'docs/a.md' } }
+    await runExtractors(toExtractorSteps([wordCount], 'docs/a.md'), input, { title: 'A' }, provenance)
+    expect(provenance).toEqual({
+      title: { layer: 'file', file: 'docs/a.md' },
+      words: { layer: 'extractor', file: 'docs/a.md', key: 'wordCount' },
+    })
+  })
+
+  it('collects transforms in order', async () => {
+    const steps = toExtractorSteps([
+      () => ({ body: (body) => body.split('<!-- more -->')[0].trim() }),
+      () => ({ body: (body) => body.toUpperCase(), html: (html) => html.replace(/<hr>/g, '') }),
+      () => undefined,
+    ], 'docs/a.md')
+    const { transforms } = await runExtractors(steps, input, {})
+    const entry = { body: input.body, rendered: { html: '<p>One</p><hr>', metadata: { headings: [] } } }
+    applyTransforms(entry, transforms)
+    expect(entry.body).toBe('ONE TWO THREE.')
+    expect(entry.rendered.html).toBe('<p>One</p>')
+  })
+})
+
+describe('applyTransforms', () => {
+  it('rewrites headings and skips missing rendered output', () => {
+    const headings = [{ depth: 1, slug: 'a', text: 'A' }, { depth: 2, slug: 'b', text: 'B' }]
+    const entry: Parameters<typeof applyTransforms>[0] = { body: 'x', rendered: { html: '', metadata: { headings } } }
+    applyTransforms(entry, [{ headings: (list) => list.filter((h) => h.depth > 1) }])
+    expect(entry.rendered?.metadata?.headings).toEqual([{ depth: 2, slug: 'b', text: 'B' }])
+
+    const bare: Parameters<typeof applyTransforms>[0] = { body: 'x' }
+    applyTransforms(bare, [{ html: () => 'never' }])
+    expect(bare).toEqual({ body: 'x' })
+  })
+
+  it('fills unset fields from the rendered output before later rewrites', () => {
+    const headings = [{ depth: 1, slug: 'intro-1', text: 'Intro' }]
+    const entry: Parameters<typeof applyTransforms>[0] = {
+      data: { title: 'Intro', anchor: '' },
+      body: 'x',
+      rendered: { html: '', metadata: { headings } },
+    }
+    applyTransforms(entry, [
+      { renderedData: ({ headings: list }) => ({ anchor: list[0]?.slug, title: 'Ignored' }), headings: () => [] },
+      { renderedData: ({ headings: list }) => ({ count: list.length }) },
+    ])
+    expect(entry.data).toEqual({ title: 'Intro', anchor: 'intro-1', count: 0 })
+  })
+})
@@ -1,12 +1,26 @@
 import { describe, it, expect } from 'vitest'
-import { resolve } from 'node:path'
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
 import {
+  allowsExtensionlessKeys,
+  CONTENT_EXTENSIONS,
   parseCentralFile,
   flattenToMap,
   discoverPerDirFiles,
   loadFrontmatterMap,
   collectFrontmatterFilePaths,
+  contentPattern,
+  createLookup,
+  isEntryNode,
+  isGlobPattern,
+  matchKey,
+  isPerDirectoryFile,
+  loadFrontmatterSources,
+  resolveCentralFiles,
+  resolveContentExtensions,
 } from '../src/frontmatter-map.js'
+import type { FrontmatterSource } from '../src/frontmatter-map.js'
 
 const fixturesDir = resolve(import.meta.dirname, 'fixtures/central')
 
@@ -22,6 +36,64 @@ describe('parseCentralFile', () => {
     expect(data).toHaveProperty('guides/installation.md')
   })
 
+  it('reads a TOML file', () => {
+    const data = parseCentralFile(resolve(fixturesDir, 'frontmatter.toml'))
+    expect(flattenToMap(data).get('guides/installation.md')).toEqual({
+      title: 'Installation',
+      sidebar: { order: 1 },
+    })
+    expect(flattenToMap(data).get('components/README.md')).toEqual({ title: 'Overview', slug: 'components' })
+  })
+
+  it('reads JSON5 and JSONC files with comments and trailing commas', () => {
+    const expected = { 'guides/installation.md': { title: 'Installation', sidebar: { order: 1 } } }
+    expect(parseCentralFile(resolve(fixturesDir, 'frontmatter.json5'))).toEqual(expected)
+    expect(parseCentralFile(resolve(fixturesDir, 'frontmatter.jsonc'))).toEqual(expected)
+  })
+
+  describe('parse errors', () => {
+    const invalidDir = resolve(import.meta.dirname, 'fixtures/invalid')
+
+    it('reports file, line and column for YAML', () => {
+      const file = resolve(invalidDir, 'frontmatter.yml')
+      expect(() => parseCentralFile(file)).toThrow(`Failed to parse ${file}:4:1: `)
+    })
+
+    it('reports file, line and column for JSON', () => {
+      const file = resolve(invalidDir, 'frontmatter.json')
+      expect(() => parseCentralFile(file)).toThrow(`Failed to parse ${file}:4:5: invalid character '\\"'`)
+    })
+
+    it('reports the JSON.parse position for JSON that only JSON5 accepts', () => {
+      const file = join(mkdtempSync(join(tmpdir(), 'fm-json-')), 'frontmatter.json')
+      writeFileSync(file, '{\n  "index.md": { "title": "Home" },\n}\n')
+      expect(() => parseCentralFile(file)).toThrow(`Failed to parse ${file}:3:1: Expected double-quoted property name`)
+    })
+
+    it('reports file, line and column for TOML', () => {
+      const file = resolve(invalidDir, 'frontmatter.toml')
+      expect(() => parseCentralFile(file)).toThrow(`Failed to parse ${file}:3:9: Invalid TOML document`)
+    })
+
+    it('reports file, line and column for JSON5', () => {
+      const file = resolve(invalidDir, 'frontmatter.json5')
+      expect(() => parseCentralFile(file)).toThrow(`Failed to parse ${file}:3:6: invalid character '?'`)
+    })
+  })
+
+  it('reads YAML directive tags as their JSON equivalents', () => {
+    const yaml = parseCentralFile(resolve(fixturesDir, 'directives.yml'))
+    const json = parseCentralFile(resolve(fixturesDir, 'directives.json'))
+    expect(yaml).toEqual(json)
+    expect(yaml['guides/installation.md']).toEqual({
+      description: '$unset',
+      title: { $force: 'Installation' },
+      sidebar: { $replace: { order: 1 } },
+      tags: { $force: ['a', 'b'] },
+      order: { $force: 3 },
+    })
+  })
+
   it('returns empty object for missing file', () => {
     expect(parseCentralFile('/nonexistent/file.yml')).toEqual({})
   })
@@ -68,6 +140,28 @@ describe('flattenToMap', () => {
   it('returns empty map for empty input', () => {
     expect(flattenToMap({})).toEqual(new Map())
   })
+
+  it('treats glob pattern keys as entries', () => {
+    const map = flattenToMap({
+      '*.mdx': { layout: 'wide' },
+      guides: {
+        '**/*.md': { sidebar: { badge: 'new' } },
+        'intro.{md,mdx}': { title: 'Intro' },
+      },
+    })
+    expect(map.get('*.mdx')).toEqual({ layout: 'wide' })
+    expect(map.get('guides/**/*.md')).toEqual({ sidebar: { badge: 'new' } })
+    expect(map.get('guides/intro.{md,mdx}')).toEqual({ title: 'Intro' })
+  })
+
+  it('treats _defaults keys as entries', () => {
+    const map = flattenToMap({
+      _defaults: { author: 'Root' },
+      guides: { _defaults: { sidebar: { group: 'Guides' } } },
+    })
+    expect(map.get('_defaults')).toEqual({ author: 'Root' })
+    expect(map.get('guides/_defaults')).toEqual({ sidebar: { group: 'Guides' } })
+  })
 })
 
 describe('discoverPerDirFiles', () => {
@@ -96,6 +190,41 @@ describe('discoverPerDirFiles', () => {
     const map = discoverPerDirFiles('/nonexistent/directory')
     expect(map.size).toBe(0)
   })
+
+  it('discovers frontmatter.toml files', () => {
+    const map = discoverPerDirFiles(resolve(import.meta.dirname, 'fixtures/toml-dir/docs'))
+    expect(map.get('guides/installation.md')).toEqual({ title: 'Installation', tags: ['setup'] })
+  })
+
+  describe('with custom filenames', () => {
+    const customBase = resolve(import.meta.dirname, 'fixtures/custom-names/docs')
+
+    it('looks only for the configured filenames', () => {
+      const map = discoverPerDirFiles(customBase, { filenames: ['_meta.yml'] })
+      expect(map.get('index.md')).toEqual({ title: 'Meta Home', template: 'splash' })
+      expect(map.has('guides/intro.md')).toBe(false)
+    })
+
+    it('uses the first configured filename found by default', () => {
+      const map = discoverPerDirFiles(customBase, { filenames: ['_data.json', '_meta.yml'] })
+      expect(map.get('index.md')).toEqual({ title: 'Data Home', description: 'From _data.json' })
+      expect(map.get('guides/intro.md')).toEqual({ title: 'Intro' })
+    })
+
+    it('merges every matching file with earlier filenames winning', () => {
+      const map = discoverPerDirFiles(customBase, { filenames: ['_meta.yml', '_data.json'], multiple: 'merge' })
+      expect(map.get('index.md')).toEqual({
+        title: 'Meta Home',
+        template: 'splash',
+        description: 'From _data.json',
+      })
+    })
+
+    it('throws on multiple matching files in error mode', () => {
+      expect(() => discoverPerDirFiles(customBase, { filenames: ['_meta.yml', '_data.json'], multiple: 'error' }))
+        .toThrow(/Multiple frontmatter files in .*docs: _meta\.yml, _data\.json/)
+    })
+  })
 })
 
 describe('loadFrontmatterMap', () => {
@@ -128,6 +257,299 @@ describe('loadFrontmatterMap', () => {
   })
 })
 
+describe('isGlobPattern', () => {
+  it('detects wildcard, class, and brace syntax', () => {
+    expect(isGlobPattern('guides/**/*.md')).toBe(true)
+    expect(isGlobPattern('page-?.md')).toBe(true)
+    expect(isGlobPattern('v[12].md')).toBe(true)
+    expect(isGlobPattern('intro.{md,mdx}')).toBe(true)
+  })
+
+  it('returns false for plain paths', () => {
+    expect(isGlobPattern('guides/installation.md')).toBe(false)
+  })
+})
+
+describe('matchKey', () => {
+  it('drops content extensions and case as asked', () => {
+    expect(matchKey('Guides/A.md')).toBe('Guides/A.md')
+    expect(matchKey('Guides/A.md', { ignoreCase: true })).toBe('guides/a.md')
+    expect(matchKey('Guides/A.md', { ignoreExtension: true })).toBe('Guides/A')
+    expect(matchKey('data/a.json', { ignoreExtension: true })).toBe('data/a.json')
+    expect(matchKey('data/a.json', { ignoreExtension: true }, new Set(['.json']))).toBe('data/a')
+  })
+})
+
+describe('isEntryNode', () => {
+  it('treats extensionless keys holding a non-object field as entries when allowed', () => {
+    expect(isEntryNode('a.md', {})).toBe(true)
+    expect(isEntryNode('installation', { title: 'Install', sidebar: { order: 1 } }, CONTENT_EXTENSIONS, true)).toBe(true)
+    expect(isEntryNode('installation', { title: 'Install' })).toBe(false)
+    expect(isEntryNode('guides', { 'a.md': { title: 'A' }, deep: { 'b.md': {} } }, CONTENT_EXTENSIONS, true)).toBe(false)
+    expect(isEntryNode('guides', { 'a.md': 'not an object' }, CONTENT_EXTENSIONS, true)).toBe(false)
+  })
+
+  it('flattens extensionless entries in nested files when allowed', () => {
+    const data = { guides: { installation: { title: 'Install' }, 'a.md': { title: 'A' } } }
+    expect([...flattenToMap(data, '', CONTENT_EXTENSIONS, true).keys()]).toEqual(['guides/installation', 'guides/a.md'])
+    expect([...flattenToMap(data).keys()]).toEqual(['guides/a.md'])
+  })
+
+  it('keeps keys with an extension under a directory holding other fields', () => {
+    const data = { guides: { version: 2, 'intro.md': { title: 'Intro' } } }
+    expect([...flattenToMap(data).keys()]).toEqual(['guides/intro.md'])
+    expect([...flattenToMap(data, '', CONTENT_EXTENSIONS, true).keys()]).toEqual(['guides/intro.md'])
+  })
+
+  it('leaves extensionless keys as directories unless allowed', () => {
+    const data = { guides: { installation: { sidebar: { order: 1 } }, 'a.md': { title: 'A' } } }
+    expect([...flattenToMap(data).keys()]).toEqual(['guides/a.md'])
+    expect(allowsExtensionlessKeys(undefined)).toBe(false)
+    expect(allowsExtensionlessKeys(['slug'])).toBe(true)
+    expect(allowsExtensionlessKeys([], { ignoreCase: true })).toBe(false)
+    expect(allowsExtensionlessKeys([], { ignoreExtension: true })).toBe(true)
+  })
+})
+
+describe('resolveContentExtensions', () => {
+  it('prefers the option, then the extensions the pattern ends in, then markdown', () => {
+    expect([...resolveContentExtensions('**/*.json', ['yaml', '.yml'])]).toEqual(['.yaml', '.yml'])
+    expect([...resolveContentExtensions('**/*.json')]).toEqual(['.json'])
+    expect([...resolveContentExtensions(['docs/**/*.{md,mdx}', 'data/*.yaml', '!drafts/**'])]).toEqual(['.md', '.mdx', '.yaml'])
+    expect([...resolveContentExtensions('**/*')]).toEqual(['.md', '.mdx', '.mdoc'])
+    expect([...resolveContentExtensions(undefined)]).toEqual(['.md', '.mdx', '.mdoc'])
+  })
+
+  it('builds a glob pattern back from the extensions', () => {
+    expect(contentPattern(new Set(['.json']))).toBe('**/*.json')
+    expect(contentPattern(new Set(['.md', '.mdx']))).toBe('**/*.{md,mdx}')
+  })
+
+  it('flattens keys naming the resolved extensions', () => {
+    const data = { team: { 'alice.json': { social: { github: 'alice' } } } }
+    expect([...flattenToMap(data).keys()]).toEqual([])
+    expect([...flattenToMap(data, '', new Set(['.json'])).keys()]).toEqual(['team/alice.json'])
+  })
+})
+
+describe('createLookup', () => {
+  function lookupSources(sources: FrontmatterSource[]) {
+    const lookup = createLookup(sources)
+    return (relPath: string) => lookup(relPath).data
+  }
+
+  function lookupData(entries: Array<[string, Record<string, unknown>]>) {
+    return lookupSources([{ file: '/frontmatter.yml', layer: 'central', entries: new Map(entries) }])
+  }
+
+  it('returns exact-key data', () => {
+    const lookup = lookupData([['guides/a.md', { title: 'A' }]])
+    expect(lookup('guides/a.md')).toEqual({ title: 'A' })
+  })
+
+  it('matches keys regardless of case or extension when asked', () => {
+    const source: FrontmatterSource = {
+      file: '/frontmatter.yml',
+      layer: 'central',
+      entries: new Map<string, Record<string, unknown>>([
+        ['Guides/_defaults', { group: 'Guides' }],
+        ['guides/*.MD', { layout: 'doc' }],
+        ['guides/readme.md', { title: 'Readme' }],
+        ['guides/installation', { order: 1 }],
+      ]),
+    }
+    expect(createLookup([source])('guides/README.md').data).toEqual({})
+    const lookup = createLookup([source], undefined, { keyMatch: { ignoreCase: true, ignoreExtension: true } })
+    expect(lookup('guides/README.md').data).toEqual({ group: 'Guides', layout: 'doc', title: 'Readme' })
+    expect(lookup('guides/README.mdx').data).toEqual({ group: 'Guides', title: 'Readme' })
+    expect(lookup('guides/installation.mdoc').data).toEqual({ group: 'Guides', order: 1 })
+  })
+
+  it('merges exact keys for aliases after the path', () => {
+    const source: FrontmatterSource = {
+      file: '/frontmatter.yml',
+      layer: 'central',
+      entries: new Map([
+        ['guides/a', { title: 'Alias', draft: true }],
+        ['guides/a.md', { title: 'Path' }],
+      ]),
+    }
+    const lookup = createLookup([source], undefined, { aliases: (relPath) => [relPath.replace(/\.md$/, '')] })
+    expect(lookup('guides/a.md').data).toEqual({ title: 'Alias', draft: true })
+    expect(lookup('guides/a.md').layers.map((layer) => layer.key)).toEqual(['guides/a.md', 'guides/a'])
+  })
+
+  it('returns empty object when nothing matches', () => {
+    const lookup = lookupData([['guides/*.md', { title: 'A' }]])
+    expect(lookup('components/a.md')).toEqual({})
+  })
+
+  it('applies matching pattern keys', () => {
+    const lookup = lookupData([['guides/**/*.md', { layout: 'doc' }]])
+    expect(lookup('guides/deep/nested/a.md')).toEqual({ layout: 'doc' })
+    expect(lookup('guides/a.mdx')).toEqual({})
+  })
+
+  it('exact keys take precedence over patterns', () => {
+    const lookup = lookupData([
+      ['guides/a.md', { title: 'Exact' }],
+      ['guides/*.md', { title: 'Pattern', layout: 'doc' }],
+    ])
+    expect(lookup('guides/a.md')).toEqual({ title: 'Exact', layout: 'doc' })
+  })
+
+  it('more specific patterns win over broader ones regardless of order', () => {
+    const lookup = lookupData([
+      ['guides/*.md', { sidebar: { badge: 'guide' } }],
+      ['**/*.md', { sidebar: { badge: 'any', group: 'All' } }],
+    ])
+    expect(lookup('guides/a.md')).toEqual({ sidebar: { badge: 'guide', group: 'All' } })
+  })
+
+  it('applies _defaults to entries in the directory and below', () => {
+    const lookup = lookupData([
+      ['guides/_defaults', { author: 'Guides' }],
+    ])
+    expect(lookup('guides/a.md')).toEqual({ author: 'Guides' })
+    expect(lookup('guides/deep/a.md')).toEqual({ author: 'Guides' })
+    expect(lookup('components/a.md')).toEqual({})
+    expect(lookup('guides-extra/a.md')).toEqual({})
+  })
+
+  it('deeper _defaults override shallower ones, patterns and exact keys override both', () => {
+    const lookup = lookupData([
+      ['guides/*.md', { layout: 'pattern' }],
+      ['guides/a.md', { title: 'Exact' }],
+      ['guides/_defaults', { title: 'Guides', layout: 'guides' }],
+      ['_defaults', { title: 'Root', layout: 'root', author: 'Root' }],
+    ])
+    expect(lookup('guides/a.md')).toEqual({ title: 'Exact', layout: 'pattern', author: 'Root' })
+    expect(lookup('guides/b.md')).toEqual({ title: 'Guides', layout: 'pattern', author: 'Root' })
+    expect(lookup('top.md')).toEqual({ title: 'Root', layout: 'root', author: 'Root' })
+  })
+
+  it('cascades _defaults through central and nested per-directory files', () => {
+    const centralFile = resolve(import.meta.dirname, 'fixtures/defaults/frontmatter.yml')
+    const basePath = resolve(import.meta.dirname, 'fixtures/defaults/docs')
+    const lookup = lookupSources(loadFrontmatterSources({ centralFile, basePath }))
+    expect(lookup('index.md')).toEqual({
+      author: 'Docs Team',
+      sidebar: { badge: 'docs' },
+    })
+    expect(lookup('guides/intro.md')).toEqual({
+      author: 'Docs Team',
+      sidebar: { badge: 'docs', group: 'Guides' },
+    })
+    expect(lookup('guides/advanced/tuning.md')).toEqual({
+      author: 'Advanced Team',
+      sidebar: { badge: 'docs', group: 'Advanced', order: 1 },
+    })
+  })
+
+  it('resolves patterns from central and per-directory files', () => {
+    const centralFile = resolve(import.meta.dirname, 'fixtures/patterns/frontmatter.yml')
+    const basePath = resolve(import.meta.dirname, 'fixtures/patterns/docs')
+    const lookup = lookupSources(loadFrontmatterSources({ centralFile, basePath }))
+    expect(lookup('guides/installation.md')).toEqual({
+      title: 'Installation',
+      layout: 'doc',
+      sidebar: { badge: 'guide', group: 'Guides' },
+    })
+    expect(lookup('reference/api.md')).toEqual({
+      layout: 'doc',
+      sidebar: { badge: 'central' },
+    })
+  })
+
+  it('reports contributing layers in merge order', () => {
+    const central: FrontmatterSource = {
+      file: '/frontmatter.yml',
+      layer: 'central',
+      entries: new Map([['guides/a.md', { title: 'Central' }], ['**/*.md', { layout: 'doc' }]]),
+    }
+    const perDir: FrontmatterSource = {
+      file: '/docs/guides/frontmatter.yml',
+      layer: 'per-dir',
+      entries: new Map([['guides/a.md', { title: 'Per-dir' }]]),
+    }
+    const { data, layers } = createLookup([central, perDir])('guides/a.md')
+    expect(data).toEqual({ title: 'Per-dir', layout: 'doc' })
+    expect(layers.map((l) => [l.source.file, l.key])).toEqual([
+      ['/frontmatter.yml', '**/*.md'],
+      ['/frontmatter.yml', 'guides/a.md'],
+      ['/docs/guides/frontmatter.yml', 'guides/a.md'],
+    ])
+  })
+})
+
+describe('loadFrontmatterSources', () => {
+  it('returns central then per-directory sources with their files', () => {
+    const centralFile = resolve(import.meta.dirname, 'fixtures/central/frontmatter.yml')
+    const basePath = resolve(import.meta.dirname, 'fixtures/per-dir/docs')
+    const sources = loadFrontmatterSources({ centralFile, basePath })
+    expect(sources[0]).toMatchObject({ file: centralFile, layer: 'central' })
+    expect(sources[0].entries.get('guides/installation.md')).toEqual({ title: 'Installation', sidebar: { order: 1 } })
+    const perDir = sources.slice(1)
+    expect(perDir.every((s) => s.layer === 'per-dir')).toBe(true)
+    const components = perDir.find((s) => s.file.endsWith('components/frontmatter.yaml'))!
+    expect(components.entries.get('components/accordion.md')).toEqual({ title: 'Accordion' })
+  })
+
+  it('layers multiple central files in order, scoping prefixed files', () => {
+    const rootDir = resolve(import.meta.dirname, 'fixtures/layered')
+    const centralFiles = resolveCentralFiles(
+      ['./meta/base.yml', { path: './meta/teams/*.yml', prefix: '/components/' }],
+      rootDir,
+    )
+    const map = loadFrontmatterMap({ centralFiles, basePath: '/nonexistent' })
+    expect(map.get('components/accordion.md')).toEqual({
+      title: 'Team A Accordion',
+      description: 'From base',
+      sidebar: { order: 1, badge: 'b' },
+    })
+    expect(loadFrontmatterSources({ centralFiles, basePath: '/nonexistent' }).map((s) => s.layer))
+      .toEqual(['central', 'central', 'central'])
+  })
+
+  it('skips per-directory discovery when disabled', () => {
+    const centralFile = resolve(import.meta.dirname, 'fixtures/central/frontmatter.yml')
+    const basePath = resolve(import.meta.dirname, 'fixtures/per-dir/docs')
+    const sources = loadFrontmatterSources({ centralFile, basePath, perDirectory: false })
+    expect(sources.map((s) => s.layer)).toEqual(['central'])
+  })
+
+  it('skips a missing central file', () => {
+    const sources = loadFrontmatterSources({ centralFile: '/nonexistent/frontmatter.yml', basePath: '/nonexistent' })
+    expect(sources).toEqual([])
+  })
+})
+
+describe('resolveCentralFiles', () => {
+  const rootDir = resolve(import.meta.dirname, 'fixtures/layered')
+
+  it('returns no files when the option is unset', () => {
+    expect(resolveCentralFiles(undefined, rootDir)).toEqual([])
+  })
+
+  it('resolves a single path against the root, even if missing', () => {
+    expect(resolveCentralFiles('./missing.yml', rootDir)).toEqual([{ file: resolve(rootDir, 'missing.yml') }])
+  })
+
+  it('expands glob patterns in sorted order and keeps array order', () => {
+    const files = resolveCentralFiles(['./meta/teams/*.yml', './meta/base.yml'], rootDir)
+    expect(files).toEqual([
+      { file: resolve(rootDir, 'meta/teams/a.yml') },
+      { file: resolve(rootDir, 'meta/teams/b.yml') },
+      { file: resolve(rootDir, 'meta/base.yml') },
+    ])
+  })
+
+  it('carries the prefix of scoped entries', () => {
+    const files = resolveCentralFiles({ path: './meta/teams/a.yml', prefix: 'components' }, rootDir)
+    expect(files).toEqual([{ file: resolve(rootDir, 'meta/teams/a.yml'), prefix: 'components' }])
+  })
+})
+
 describe('collectFrontmatterFilePaths', () => {
   it('collects paths from base and subdirectories', () => {
     const basePath = resolve(import.meta.dirname, 'fixtures/per-dir/docs')
@@ -136,8 +558,48 @@ describe('collectFrontmatterFilePaths', () => {
     expect(paths.every((p) => p.includes('frontmatter.'))).toBe(true)
   })
 
+  it('collects configured filenames only', () => {
+    const basePath = resolve(import.meta.dirname, 'fixtures/custom-names/docs')
+    const paths = collectFrontmatterFilePaths(basePath, undefined, { filenames: ['_data.json'] })
+    expect(paths.map((p) => p.slice(basePath.length))).toEqual(['/_data.json', '/guides/_data.json'])
+  })
+
+  it('collects every central file, including ones not created yet', () => {
+    const centralFile = resolve(import.meta.dirname, 'fixtures/central/frontmatter.yml')
+    const paths = collectFrontmatterFilePaths('/nonexistent', [centralFile, '/nonexistent/other.yml'])
+    expect(paths).toEqual([centralFile, '/nonexistent/other.yml'])
+  })
+
+  it('collects only the central file when discovery is disabled', () => {
+    const basePath = resolve(import.meta.dirname, 'fixtures/per-dir/docs')
+    const centralFile = resolve(import.meta.dirname, 'fixtures/central/frontmatter.yml')
+    expect(collectFrontmatterFilePaths(basePath, centralFile, false)).toEqual([centralFile])
+  })
+
   it('returns empty array for nonexistent directory', () => {
     const paths = collectFrontmatterFilePaths('/nonexistent/directory')
     expect(paths).toEqual([])
   })
 })
+
+describe('isPerDirectoryFile', () => {
+  const basePath = '/site/docs'
+
+  it('matches default filenames anywhere under the base, existing or not', () => {
+    expect(isPerDirectoryFile('/site/docs/frontmatter.yml', basePath)).toBe(true)
+    expect(isPerDirectoryFile('/site/docs/a/b/frontmatter.toml', basePath)).toBe(true)
+    expect(isPerDirectoryFile('/site/docs/a/notes.yml', basePath)).toBe(false)
+  })
+
+  it('ignores files outside the base and in skipped directories', () => {
+    expect(isPerDirectoryFile('/site/frontmatter.yml', basePath)).toBe(false)
+    expect(isPerDirectoryFile('/site/docs/.cache/frontmatter.yml', basePath)).toBe(false)
+    expect(isPerDirectoryFile('/site/docs/node_modules/x/frontmatter.yml', basePath)).toBe(false)
+  })
+
+  it('follows configured filenames and disabled discovery', () => {
+    expect(isPerDirectoryFile('/site/docs/_meta.yml', basePath, { filenames: ['_meta.yml'] })).toBe(true)
+    expect(isPerDirectoryFile('/site/docs/frontmatter.yml', basePath, { filenames: ['_meta.yml'] })).toBe(false)
+    expect(isPerDirectoryFile('/site/docs/frontmatter.yml', basePath, false)).toBe(false)
+  })
+})
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest'
-import { extractH1, stripH1Html } from '../src/h1.js'
+import { createMarkdownProcessor } from '@astrojs/markdown-remark'
+import { applyTransforms } from '../src/extractors.js'
+import { extractDescription, extractH1, h1Extractor, normalizeH1Option, renderInlineMarkdown, shouldStripH1, stripH1Heading, stripH1Html } from '../src/h1.js'
 
 describe('extractH1', () => {
   it('extracts H1 and strips it from body', () => {
@@ -92,6 +94,89 @@ describe('extractH1', () => {
     const result = extractH1(md)
     expect(result?.title).toBe('C# Programming Guide')
   })
+
+  it('removes a closing hash sequence', () => {
+    expect(extractH1('# Title ##\n\nContent.')).toEqual({ title: 'Title', body: 'Content.' })
+    expect(extractH1('#   Spaced   #')?.title).toBe('Spaced')
+    expect(extractH1('# #')).toBeNull()
+  })
+
+  it('extracts setext headings', () => {
+    expect(extractH1('My Title\n========\n\nContent.')).toEqual({ title: 'My Title', body: 'Content.' })
+    expect(extractH1('Two **line**\ntitle\n===\nContent.')).toEqual({ title: 'Two line title', body: 'Content.' })
+  })
+
+  it('ignores setext H2 underlines and underlined non-paragraphs', () => {
+    expect(extractH1('Subtitle\n--------\n\nContent.')).toBeNull()
+    expect(extractH1('- item\n===')).toBeNull()
+  })
+
+  it('finds the heading after MDX statements and JSX comments, keeping them in the body', () => {
+    const md = "import Card from './Card.astro'\nexport const meta = {\n  a: 1,\n}\n\n{/* draft */}\n# Title\n\n<Card />"
+    expect(extractH1(md)).toEqual({
+      title: 'Title',
+      body: "import Card from './Card.astro'\nexport const meta = {\n  a: 1,\n}\n\n{/* draft */}\n<Card />",
+    })
+  })
+
+  it('finds the heading after HTML comments and Markdoc tags', () => {
+    expect(extractH1('<!--\n  note\n-->\n{% partial file="header.md" /%}\n\nTitle\n=====\nBody')).toEqual({
+      title: 'Title',
+      body: '<!--\n  note\n-->\n{% partial file="header.md" /%}\n\nBody',
+    })
+  })
+
+  it('returns null for an unterminated comment', () => {
+    expect(extractH1('<!-- open\n# Title')).toBeNull()
+  })
+})
+
+describe('extractDescription', () => {
+  it('returns the first paragraph after the H1 as plain text', () => {
+    expect(extractDescription('# Title\n\nSome **bold** and [linked](/x)\ntext.\n\nMore.')).toBe('Some bold and linked text.')
+  })
+
+  it('skips headings, code, lists, quotes, images and MDX statements', () => {
+    const md = [
+      "import Card from './Card.astro'",
+      '',
+      '# Title',
+      '',
+      '![Banner](/banner.png)',
+      '',
+      'Setext',
+      '------',
+      '',
+      '```sh',
+      'npm install',
+      '',
+      'still code',
+      '```',
+      '',
+      '- item',
+      '> quote',
+      '<Card />',
+      '',
+      'The real paragraph.',
+    ].join('\n')
+    expect(extractDescription(md)).toBe('The real paragraph.')
+  })
+
+  it('truncates on a word boundary', () => {
+    expect(extractDescription('One two three four.', 14)).toBe('One two three…')
+    // "three" ends at the limit, but the ellipsis would not fit after it
+    expect(extractDescription('One two three four.', 13)).toBe('One two…')
+    expect(extractDescription('One two, three four.', 12)).toBe('One two…')
+    expect(extractDescription('Short.', 14)).toBe('Short.')
+  })
+
+  it('returns null without prose', () => {
+    expect(extractDescription('# Title\n\n```\ncode\n```\n')).toBeNull()
+  })
+
+  it('skips multi-line MDX statements and comments', () => {
+    expect(extractDescription("import {\n  Card,\n} from './ui'\n\n# Title\n\n<!--\nhidden\n-->\n\nShown.")).toBe('Shown.')
+  })
 })
 
 describe('stripH1Html', () => {
@@ -124,4 +209,85 @@ describe('stripH1Html', () => {
     const html = '<h1>Title</h1>\n\n<p>Content.</p>'
     expect(stripH1Html(html)).toBe('<p>Content.</p>')
   })
+
+  it('removes only the <h1> whose text matches the title', () => {
+    const html = '<div><h1>Banner</h1></div>\n<h1 id="a-b">A &amp; <em>B</em></h1>\n<p>Rest.</p>'
+    expect(stripH1Html(html, 'A & B')).toBe('<div><h1>Banner</h1></div>\n<p>Rest.</p>')
+    expect(stripH1Html(html, 'Missing')).toBe(html)
+  })
+})
+
+describe('stripH1Heading', () => {
+  it('drops the matching depth-1 heading', () => {
+    const headings = [
+      { depth: 2, slug: 'title', text: 'Title' },
+      { depth: 1, slug: 'title-1', text: 'Title' },
+      { depth: 1, slug: 'other', text: 'Other' },
+    ]
+    expect(stripH1Heading(headings, 'Title')).toEqual([headings[0], headings[2]])
+    expect(stripH1Heading(headings, 'Missing')).toEqual(headings)
+  })
+})
+
+describe('H1 matching against rendered Markdown', () => {
+  it('matches titles that smartypants rewrote', async () => {
+    const processor = await createMarkdownProcessor()
+    for (const source of ["# Don't panic", '# Setup -- quick start', '# Wait... "what"?']) {
+      const { title } = extractH1(`${source}\n\nBody.`)!
+      const { code, metadata } = await processor.render(`${source}\n\nBody.`)
+      expect(stripH1Html(code, title)).toBe('<p>Body.</p>')
+      expect(stripH1Heading(metadata.headings, title)).toEqual([])
+    }
+  })
+
+  it('fills slugField from the heading smartypants rewrote', async () => {
+    const processor = await createMarkdownProcessor()
+    const extract = h1Extractor(normalizeH1Option({ slugField: 'titleSlug' }))
+    for (const [source, slug] of [["# Don't panic", 'dont-panic'], ['# Setup -- quick start', 'setup--quick-start']]) {
+      const body = `${source}\n\nBody.`
+      const result = await extract({ body, data: {}, filePath: 'docs/a.md', id: 'a' })
+      const { code, metadata } = await processor.render(body)
+      const entry = { data: result!.data, body, rendered: { html: code, metadata } }
+      applyTransforms(entry, [result!])
+      expect(entry.data.titleSlug).toBe(slug)
+      expect(entry.rendered.metadata.headings).toEqual([])
+    }
+  })
+})
+
+describe('renderInlineMarkdown', () => {
+  it('renders inline formatting and escapes the rest', () => {
+    expect(renderInlineMarkdown('The `useStore` hook')).toBe('The <code>useStore</code> hook')
+    expect(renderInlineMarkdown('**Bold**, *em* & ~~old~~')).toBe('<strong>Bold</strong>, <em>em</em> &amp; <del>old</del>')
+    expect(renderInlineMarkdown('`a<b>` and <br>')).toBe('<code>a&lt;b&gt;</code> and &lt;br&gt;')
+  })
+
+  it('keeps emphasis markers in code and URLs literal', () => {
+    expect(renderInlineMarkdown('[*the* docs](/a_b_c "Docs") `__init__`'))
+      .toBe('<a href="/a_b_c"><em>the</em> docs</a> <code>__init__</code>')
+    expect(renderInlineMarkdown('![Logo](/logo_big.png) Astro')).toBe('<img src="/logo_big.png" alt="Logo"> Astro')
+  })
+})
+
+describe('normalizeH1Option', () => {
+  it('defaults to stripping into title', () => {
+    expect(normalizeH1Option(undefined)).toEqual({ mode: 'strip', field: 'title' })
+    expect(normalizeH1Option('title-only')).toEqual({ mode: 'title-only', field: 'title' })
+    expect(normalizeH1Option({ field: 'heading' })).toEqual({ mode: 'strip', field: 'heading' })
+  })
+})
+
+describe('shouldStripH1', () => {
+  it('strips according to the mode', () => {
+    const data = { title: 'Install' }
+    expect(shouldStripH1({ mode: 'strip', field: 'title' }, 'Other', data)).toBe(true)
+    expect(shouldStripH1({ mode: 'title-only', field: 'title' }, 'Install', data)).toBe(false)
+    expect(shouldStripH1({ mode: 'off', field: 'title' }, 'Install', data)).toBe(false)
+  })
+
+  it('strips only a heading equal to the final title', () => {
+    const options = { mode: 'strip-if-matches-title' as const, field: 'heading' }
+    expect(shouldStripH1(options, 'Install', { title: 'Install' })).toBe(true)
+    expect(shouldStripH1(options, 'Install', { title: 'Install Guide', heading: 'Install' })).toBe(false)
+  })
 })
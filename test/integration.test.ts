@@ -1,5 +1,7 @@
 import { describe, it, expect, vi } from 'vitest'
-import { resolve } from 'node:path'
+import { mkdtempSync, readFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
 import { pathToFileURL } from 'node:url'
 
 vi.mock('astro/loaders', () => ({
@@ -36,7 +38,9 @@ describe('central + per-dir + file integration', () => {
         captured.push({ id: props.id, data: props.data })
         return props.data
       }),
-      store: { set: vi.fn(() => true) },
+      store: { set: vi.fn(() => true), values: () => [] },
+      logger: { warn: vi.fn() },
+      meta: new Map<string, string>(),
       watcher: undefined,
     }
 
@@ -62,7 +66,9 @@ describe('central + per-dir + file integration', () => {
         captured.push({ id: props.id, data: props.data })
         return props.data
       }),
-      store: { set: vi.fn(() => true) },
+      store: { set: vi.fn(() => true), values: () => [] },
+      logger: { warn: vi.fn() },
+      meta: new Map<string, string>(),
       watcher: undefined,
     }
 
@@ -78,4 +84,166 @@ describe('central + per-dir + file integration', () => {
     expect(entry.data.title).toBe('Accordion Widget')
     expect(entry.data.draft).toBe(true)
   })
+
+  it('applies array merge strategies across external layers', async () => {
+    const captured: Array<{ id: string; data: Record<string, unknown> }> = []
+    const context = {
+      config: { root: rootUrl },
+      parseData: vi.fn(async (props: { id: string; data: Record<string, unknown> }) => {
+        captured.push({ id: props.id, data: props.data })
+        return props.data
+      }),
+      store: { set: vi.fn(() => true), values: () => [] },
+      logger: { warn: vi.fn() },
+      meta: new Map<string, string>(),
+      watcher: undefined,
+    }
+
+    const replaced = globFrontmatter({ pattern: '**/*.md', base: './docs', frontmatter: './frontmatter.yml' })
+    await replaced.load(context as never)
+    expect(captured.find((e) => e.id === 'components/accordion')!.data.tags).toEqual(['components'])
+
+    captured.length = 0
+    const unioned = globFrontmatter({
+      pattern: '**/*.md',
+      base: './docs',
+      frontmatter: './frontmatter.yml',
+      arrayMerge: { paths: { tags: 'union' } },
+    })
+    await unioned.load(context as never)
+    expect(captured.find((e) => e.id === 'components/accordion')!.data.tags).toEqual(['docs', 'components'])
+  })
+
+  it('applies merge directives from external files', async () => {
+    const captured: Array<{ id: string; data: Record<string, unknown> }> = []
+    const context = {
+      config: { root: pathToFileURL(resolve(import.meta.dirname, 'fixtures/directives') + '/') },
+      parseData: vi.fn(async (props: { id: string; data: Record<string, unknown> }) => {
+        captured.push({ id: props.id, data: props.data })
+        return props.data
+      }),
+      store: { set: vi.fn(() => true), values: () => [] },
+      logger: { warn: vi.fn() },
+      meta: new Map<string, string>(),
+      watcher: undefined,
+    }
+
+    const loader = globFrontmatter({
+      pattern: '**/*.md',
+      base: './docs',
+      frontmatter: './frontmatter.yml',
+    })
+    await loader.load(context as never)
+
+    const accordion = captured.find((e) => e.id === 'components/accordion')!
+    expect(accordion.data).toEqual({
+      title: 'Central Accordion',   // central $force beats in-file title
+      draft: true,
+      sidebar: { order: 2 },        // per-dir $replace drops central badge
+      tags: ['docs'],               // description removed by per-dir $unset
+    })
+  })
+
+  it('writes a provenance report for every field', async () => {
+    const context = {
+      config: { root: rootUrl },
+      parseData: vi.fn(async (props: { data: Record<string, unknown> }) => props.data),
+      store: { set: vi.fn(() => true), values: () => [] },
+      logger: { warn: vi.fn() },
+      meta: new Map<string, string>(),
+      watcher: undefined,
+    }
+    const reportPath = join(mkdtempSync(join(tmpdir(), 'provenance-')), 'report/provenance.json')
+
+    const loader = globFrontmatter({
+      pattern: '**/*.md',
+      base: './docs',
+      frontmatter: './frontmatter.yml',
+      provenance: reportPath,
+    })
+    await loader.load(context as never)
+
+    const report = JSON.parse(readFileSync(reportPath, 'utf-8'))
+    expect(report['components/accordion']).toEqual({
+      title: { layer: 'file', file: 'docs/components/accordion.md' },
+      description: { layer: 'central', file: 'frontmatter.yml', key: 'components/accordion.md' },
+      'sidebar.order': { layer: 'per-dir', file: 'docs/components/frontmatter.yml', key: 'components/accordion.md' },
+      'sidebar.badge': { layer: 'central', file: 'frontmatter.yml', key: 'components/accordion.md' },
+      tags: { layer: 'per-dir', file: 'docs/components/frontmatter.yml', key: 'components/accordion.md' },
+      draft: { layer: 'file', file: 'docs/components/accordion.md' },
+    })
+    expect(report['components/with-h1']).toEqual({
+      title: { layer: 'h1', file: 'docs/components/with-h1.md' },
+      draft: { layer: 'file', file: 'docs/components/with-h1.md' },
+    })
+  })
+
+  it('layers multiple central files before per-directory files', async () => {
+    const captured: Array<{ id: string; data: Record<string, unknown> }> = []
+    const context = {
+      config: { root: pathToFileURL(resolve(import.meta.dirname, 'fixtures/layered') + '/') },
+      parseData: vi.fn(async (props: { id: string; data: Record<string, unknown> }) => {
+        captured.push({ id: props.id, data: props.data })
+        return props.data
+      }),
+      store: { set: vi.fn(() => true), values: () => [] },
+      logger: { warn: vi.fn() },
+      meta: new Map<string, string>(),
+      watcher: undefined,
+    }
+
+    const loader = globFrontmatter({
+      pattern: '**/*.md',
+      base: './docs',
+      frontmatter: ['./meta/base.yml', { path: './meta/teams/*.yml', prefix: 'components' }],
+    })
+    await loader.load(context as never)
+
+    const accordion = captured.find((e) => e.id === 'components/accordion')!
+    expect(accordion.data).toEqual({
+      title: 'File Accordion',
+      description: 'From base',
+      draft: true,
+      sidebar: { order: 1, badge: 'b' },
+    })
+  })
+
+  it('merges provider data in option order and watches its dependencies', async () => {
+    const captured: Array<{ id: string; data: Record<string, unknown> }> = []
+    const add = vi.fn()
+    const context = {
+      config: { root: rootUrl },
+      parseData: vi.fn(async (props: { id: string; data: Record<string, unknown> }) => {
+        captured.push({ id: props.id, data: props.data })
+        return props.data
+      }),
+      store: { set: vi.fn(() => true), values: () => [] },
+      logger: { warn: vi.fn() },
+      meta: new Map<string, string>(),
+      watcher: { add, on: vi.fn() },
+    }
+
+    const loader = globFrontmatter({
+      pattern: '**/*.md',
+      base: './docs',
+      frontmatter: [
+        './frontmatter.yml',
+        {
+          name: 'manifest',
+          load: async () => ({
+            'components/**/*.md': { lastUpdated: '2026-01-01' },
+            components: { 'accordion.md': { description: 'From provider' } },
+          }),
+          dependencies: ['./frontmatter.yml'],
+        },
+      ],
+    })
+    await loader.load(context as never)
+
+    const accordion = captured.find((e) => e.id === 'components/accordion')!
+    expect(accordion.data.description).toBe('From provider')
+    expect(accordion.data.lastUpdated).toBe('2026-01-01')
+    expect(accordion.data.sidebar).toEqual({ order: 2, badge: 'new' }) // per-dir still wins over provider
+    expect(add.mock.calls.flat(2)).toContain(resolve(rootDir, 'frontmatter.yml'))
+  })
 })
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { z } from 'astro/zod'
+import { frontmatterJsonSchema } from '../src/json-schema.js'
+
+const schema = z.object({
+  title: z.string(),
+  sidebar: z.object({ order: z.number().int(), label: z.string().optional() }).optional(),
+  tags: z.array(z.string()).default([]),
+})
+
+describe('frontmatterJsonSchema', () => {
+  it('checks entry keys against the entry schema and nests other keys as directories', () => {
+    const json = frontmatterJsonSchema(schema)
+    expect(json.$schema).toBe('http://json-schema.org/draft-07/schema#')
+    expect(json.type).toBe('object')
+    expect(json.patternProperties).toEqual({
+      '\\.(md|mdx|mdoc)$': { $ref: '#/definitions/entry' },
+      '(^|/)_defaults$': { $ref: '#/definitions/entry' },
+      '[*?[{]': { $ref: '#/definitions/entry' },
+    })
+    expect(json.additionalProperties).toEqual({ anyOf: [{ $ref: '#/definitions/entry' }, { $ref: '#' }] })
+  })
+
+  it('describes per-directory files as flat maps of entries', () => {
+    const json = frontmatterJsonSchema(schema, { perDirectory: true })
+    expect(json.patternProperties).toBeUndefined()
+    expect(json.additionalProperties).toEqual({ $ref: '#/definitions/entry' })
+    expect(json.definitions).toEqual(frontmatterJsonSchema(schema).definitions)
+  })
+
+  it('matches entry keys by the given content extensions', () => {
+    const json = frontmatterJsonSchema(schema, { extensions: new Set(['.json', '.yaml']) })
+    expect(Object.keys(json.patternProperties as object)[0]).toBe('\\.(json|yaml)$')
+  })
+
+  it('makes every field optional at any depth', () => {
+    const entry = (frontmatterJsonSchema(schema).definitions as Record<string, Record<string, unknown>>).entry
+    expect(entry.required).toBeUndefined()
+    const properties = entry.properties as Record<string, { anyOf: Array<Record<string, unknown>> }>
+    const sidebar = properties.sidebar.anyOf[0]
+    expect(sidebar.required).toBeUndefined()
+    expect(sidebar.properties).toEqual({ order: { type: 'integer' }, label: { type: 'string' } })
+  })
+
+  it('accepts merge directives for top-level fields', () => {
+    const entry = (frontmatterJsonSchema(schema).definitions as Record<string, Record<string, unknown>>).entry
+    const title = (entry.properties as Record<string, unknown>).title
+    expect(title).toEqual({
+      anyOf: [
+        { type: 'string' },
+        { const: '$unset' },
+        { type: 'object', properties: { $force: { type: 'string' } }, required: ['$force'], additionalProperties: false },
+        { type: 'object', properties: { $replace: { type: 'string' } }, required: ['$replace'], additionalProperties: false },
+      ],
+    })
+  })
+})
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest'
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { compareKeys, fixFrontmatter, lintFrontmatter } from '../src/lint.js'
+import { applyChanges } from '../src/migrate.js'
+
+function makeSite(files: Record<string, string>): string {
+  const root = mkdtempSync(join(tmpdir(), 'fm-lint-'))
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(root, path)), { recursive: true })
+    writeFileSync(join(root, path), content)
+  }
+  return root
+}
+
+const content = {
+  'docs/index.md': '',
+  'docs/guides/draft.md': '',
+  'docs/guides/install.md': '',
+  'docs/guides/upgrade.md': '',
+}
+
+describe('lintFrontmatter', () => {
+  it('reports nothing for a tidy site', () => {
+    const root = makeSite({
+      ...content,
+      'frontmatter.yml': '_defaults:\n  draft: false\n"guides/*.md":\n  sidebar: {}\nindex.md:\n  title: Home\n',
+      'docs/guides/frontmatter.yml': 'upgrade.md:\n  title: Upgrade\n',
+    })
+    expect(lintFrontmatter({ rootDir: root, base: 'docs', frontmatter: 'frontmatter.yml' })).toEqual([])
+  })
+
+  it('reports entries that are not objects', () => {
+    const root = makeSite({
+      ...content,
+      'frontmatter.yml': 'guides:\n  install.md: Install\nindex.md:\n  - a\ntitle: Site\n',
+    })
+    const issues = lintFrontmatter({ rootDir: root, base: 'docs', frontmatter: 'frontmatter.yml' })
+    expect(issues.filter((i) => i.rule === 'non-object-entry')).toEqual([
+      {
+        rule: 'non-object-entry',
+        severity: 'error',
+        file: 'frontmatter.yml',
+        line: 2,
+        column: 3,
+        message: '"guides/install.md" is a string, not an object, and is ignored',
+      },
+      {
+        rule: 'non-object-entry',
+        severity: 'error',
+        file: 'frontmatter.yml',
+        line: 3,
+        column: 1,
+        message: '"index.md" is an array, not an object, and is ignored',
+      },
+      {
+        rule: 'non-object-entry',
+        severity: 'error',
+        file: 'frontmatter.yml',
+        line: 5,
+        column: 1,
+        message: '"title" is a string, not an object, and is ignored',
+      },
+    ])
+  })
+
+  it('reports flat and nested keys for the same entry', () => {
+    const root = makeSite({
+      ...content,
+      'frontmatter.yml': 'guides:\n  install.md:\n    title: A\nguides/install.md:\n  title: B\n',
+    })
+    const [issue] = lintFrontmatter({ rootDir: root, base: 'docs', frontmatter: 'frontmatter.yml' })
+      .filter((i) => i.rule === 'flat-nested-conflict')
+    expect(issue).toMatchObject({
+      line: 2,
+      column: 3,
+      message: '"guides/install.md" is defined both as a flat and a nested key; only one applies',
+    })
+  })
+
+  it('reports keys defined in more than one file and keys matching no content', () => {
+    const root = makeSite({
+      ...content,
+      'frontmatter.yml': 'guides/install.md:\n  title: A\n',
+      'docs/guides/frontmatter.yml': 'install.md:\n  title: B\ninstal.md:\n  title: C\n',
+    })
+    const issues = lintFrontmatter({ rootDir: root, base: 'docs', frontmatter: 'frontmatter.yml' })
+    expect(issues.map(({ rule, file, line, message }) => ({ rule, file, line, message }))).toEqual([
+      {
+        rule: 'unsorted-keys',
+        file: 'docs/guides/frontmatter.yml',
+        line: 1,
+        message: 'Keys are not sorted; expected "instal.md" before "install.md"',
+      },
+      {
+        rule: 'duplicate-key',
+        file: 'docs/guides/frontmatter.yml',
+        line: 1,
+        message: '"guides/install.md" is also defined in frontmatter.yml',
+      },
+      {
+        rule: 'unmatched-key',
+        file: 'docs/guides/frontmatter.yml',
+        line: 3,
+        message: '"guides/instal.md" does not match any content file (did you mean "guides/install.md"?)',
+      },
+    ])
+  })
+
+  it('matches extensionless keys by slug when asked', () => {
+    const root = makeSite({ ...content, 'frontmatter.yml': 'guides:\n  install:\n    title: Install\n' })
+    const options = { rootDir: root, base: 'docs', frontmatter: 'frontmatter.yml' }
+    expect(lintFrontmatter({ ...options, matchBy: ['slug'] })).toEqual([])
+    // Without it, the extensionless key reads as a directory
+    expect(lintFrontmatter(options).map((issue) => issue.message)).toEqual([
+      '"guides/install/title" is a string, not an object, and is ignored',
+    ])
+  })
+
+  it('reports keys that match several files once case or extension is ignored', () => {
+    const root = makeSite({ ...content, 'docs/guides/install.mdx': '', 'frontmatter.yml': 'guides:\n  Install.md:\n    title: Install\n' })
+    const options = { rootDir: root, base: 'docs', frontmatter: 'frontmatter.yml' }
+    expect(lintFrontmatter({ ...options, keyMatch: { ignoreCase: true, ignoreExtension: true } })).toEqual([{
+      rule: 'ambiguous-key',
+      severity: 'error',
+      file: 'frontmatter.yml',
+      line: 2,
+      column: 3,
+      message: '"guides/Install.md" matches more than one content file: guides/install.md, guides/install.mdx',
+    }])
+    expect(lintFrontmatter(options).map((issue) => issue.rule)).toEqual(['unmatched-key'])
+  })
+
+  it('orders `_defaults`, then patterns, then paths', () => {
+    expect(['b.md', '**/*.md', 'a.md', '_defaults'].sort(compareKeys)).toEqual(['_defaults', '**/*.md', 'a.md', 'b.md'])
+  })
+})
+
+describe('fixFrontmatter', () => {
+  it('sorts structural keys, keeping comments and entry field order', () => {
+    const root = makeSite({
+      ...content,
+      'frontmatter.yml': [
+        '# Site data',
+        '',
+        'index.md:',
+        '  title: Home',
+        '  draft: true',
+        '# Guides',
+        'guides:',
+        '  upgrade.md: { title: Upgrade }',
+        '  # First steps',
+        '  install.md: { title: Install }',
+        '',
+      ].join('\n'),
+      'docs/guides/frontmatter.json': '{ "draft.md": { "draft": true }, "_defaults": { "draft": false } }',
+    })
+    applyChanges(fixFrontmatter({ rootDir: root, base: 'docs', frontmatter: 'frontmatter.yml' }))
+
+    expect(readFileSync(join(root, 'frontmatter.yml'), 'utf-8')).toBe([
+      '# Site data',
+      '',
+      '# Guides',
+      'guides:',
+      '  # First steps',
+      '  install.md: { title: Install }',
+      '  upgrade.md: { title: Upgrade }',
+      'index.md:',
+      '  title: Home',
+      '  draft: true',
+      '',
+    ].join('\n'))
+    expect(readFileSync(join(root, 'docs/guides/frontmatter.json'), 'utf-8')).toBe(
+      '{\n  "_defaults": {\n    "draft": false\n  },\n  "draft.md": {\n    "draft": true\n  }\n}\n',
+    )
+    expect(lintFrontmatter({ rootDir: root, base: 'docs', frontmatter: 'frontmatter.yml' })).toEqual([])
+  })
+})
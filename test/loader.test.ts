@@ -1,7 +1,12 @@
 import { describe, it, expect, vi } from 'vitest'
-import { resolve } from 'node:path'
+import { EventEmitter } from 'node:events'
+import { mkdirSync, mkdtempSync, readFileSync, statSync, unlinkSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
 import { pathToFileURL } from 'node:url'
 import { glob } from 'astro/loaders'
+import picomatch from 'picomatch'
+import { z } from 'astro/zod'
 
 vi.mock('astro/loaders', () => ({
   glob: vi.fn((_opts: unknown) => ({
@@ -106,7 +111,12 @@ function makeMockContext() {
           stored.push(entry)
           return true
         }),
+        values: () => stored,
+        get: vi.fn((_id: string): Record<string, unknown> | undefined => undefined),
+        delete: vi.fn(),
       },
+      logger: { warn: vi.fn(), error: vi.fn() },
+      meta: new Map<string, string>(),
       watcher: undefined,
     },
   }
@@ -141,7 +151,7 @@ describe('globFrontmatter', () => {
 
   it('watches frontmatter files for changes in dev mode', async () => {
     const addListener = vi.fn()
-    const mockWatcher = { add: addListener }
+    const mockWatcher = { add: addListener, on: vi.fn() }
 
     const { context } = makeMockContext()
     ;(context as Record<string, unknown>).watcher = mockWatcher
@@ -154,15 +164,27 @@ describe('globFrontmatter', () => {
     expect(watchedPaths.some((p: string) => p.includes('frontmatter.'))).toBe(true)
   })
 
+  it('watches a central file that does not exist yet', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'fm-watch-'))
+    const watcher = { add: vi.fn(), on: vi.fn() }
+    const { context } = makeMockContext()
+    const loader = globFrontmatter({ pattern: '**/*.md', base: './docs', frontmatter: 'data/frontmatter.yml' })
+    await loader.load({ ...context, config: { root: pathToFileURL(root + '/') }, watcher } as never)
+
+    expect(watcher.add).toHaveBeenCalledWith([join(root, 'data/frontmatter.yml')])
+  })
+
   it('skips watcher.add when no frontmatter files found', async () => {
     const addListener = vi.fn()
-    const mockWatcher = { add: addListener }
+    const mockWatcher = { add: addListener, on: vi.fn() }
 
     const emptyRootUrl = pathToFileURL('/nonexistent/')
     const context = {
       config: { root: emptyRootUrl },
       parseData: vi.fn(async (props: { id: string; data: Record<string, unknown> }) => props.data),
-      store: { set: vi.fn(() => true) },
+      store: { set: vi.fn(() => true), values: () => [] },
+      logger: { warn: vi.fn() },
+      meta: new Map<string, string>(),
       watcher: mockWatcher,
     }
 
@@ -297,4 +319,532 @@ describe('globFrontmatter', () => {
       { depth: 1, slug: 'buried-heading', text: 'Buried Heading' },
     ])
   })
+
+  it('warns about data file keys that match no entry', async () => {
+    const { context } = makeMockContext()
+    const loader = globFrontmatter({ pattern: '**/*.md', base: './docs' })
+    await loader.load(context as never)
+
+    const warnings = context.logger.warn.mock.calls.map((c: unknown[]) => c[0])
+    expect(warnings).toEqual([
+      'docs/frontmatter.yml: "README.md" does not match any entry',
+      'docs/components/frontmatter.yaml: "components/accordion.md" does not match any entry',
+    ])
+  })
+
+  it('counts entries glob skipped as unchanged from the store', async () => {
+    const { context } = makeMockContext()
+    context.store.values = () => [
+      { id: 'readme', data: {}, filePath: 'docs/README.md' },
+      { id: 'components/accordion', data: {}, filePath: 'docs/components/accordion.md' },
+    ]
+    const loader = globFrontmatter({ pattern: '**/*.md', base: './docs' })
+    await loader.load(context as never)
+
+    expect(context.logger.warn).not.toHaveBeenCalled()
+  })
+
+  it('fails the load on unmatched keys in strict mode', async () => {
+    const { context } = makeMockContext()
+    const loader = globFrontmatter({ pattern: '**/*.md', base: './docs', strict: true })
+    await expect(loader.load(context as never)).rejects.toThrow(
+      'Frontmatter keys do not match any entry:\ndocs/frontmatter.yml: "README.md" does not match any entry',
+    )
+  })
+
+  it('ignores per-directory files when discovery is disabled', async () => {
+    const { context, captured } = makeMockContext()
+    const loader = globFrontmatter({ pattern: '**/*.md', base: './docs', perDirectory: false })
+    await loader.load(context as never)
+
+    const installation = captured.find((e) => e.id === 'guides/installation')!
+    expect(installation.data).toEqual({ title: 'From File', draft: true })
+  })
+
+  it('does not pass loader-only options to glob', async () => {
+    const { context } = makeMockContext()
+    const loader = globFrontmatter({
+      pattern: '**/*.md',
+      base: './docs',
+      perDirectory: { filenames: ['_meta.yml'] },
+      strict: false,
+    })
+    await loader.load(context as never)
+
+    const lastCall = vi.mocked(glob).mock.calls.at(-1)![0]
+    expect(lastCall).toEqual({ pattern: '**/*.md', base: './docs' })
+  })
+
+  it('reuses parsed data files across loads and persists them to meta', async () => {
+    const loader = globFrontmatter({ pattern: '**/*.md', base: './docs' })
+    const first = makeMockContext()
+    await loader.load(first.context as never)
+    expect(first.context.meta.get('glob-frontmatter:data-files')).toContain('frontmatter.yml')
+
+    const second = makeMockContext()
+    await loader.load(second.context as never)
+    expect(second.captured).toEqual(first.captured)
+  })
+
+  it('hides the digest of entries whose external data changed since they were parsed', async () => {
+    const seen: unknown[] = []
+    vi.mocked(glob).mockImplementationOnce(() => ({
+      name: 'glob',
+      load: async (ctx: {
+        parseData: (props: { id: string; data: Record<string, unknown>; filePath: string }) => Promise<unknown>
+        store: { get: (id: string) => unknown }
+      }) => {
+        seen.push(ctx.store.get('guides/installation'))
+        await ctx.parseData({
+          id: 'guides/installation',
+          data: {},
+          filePath: resolve(rootDir, 'docs/guides/installation.md'),
+        })
+        seen.push(ctx.store.get('guides/installation'))
+      },
+    }) as never)
+    const { context } = makeMockContext()
+    const existing = { id: 'guides/installation', data: {}, digest: 'abc', filePath: 'docs/guides/installation.md' }
+    context.store.get.mockReturnValue(existing)
+    const loader = globFrontmatter({ pattern: '**/*.md', base: './docs' })
+    await loader.load(context as never)
+
+    expect(seen).toEqual([{ ...existing, digest: undefined }, existing])
+  })
+
+  it('reports in-file fields by the content path relative to the root', async () => {
+    vi.mocked(glob).mockImplementationOnce(() => ({
+      name: 'glob',
+      load: async (ctx: {
+        parseData: (props: { id: string; data: Record<string, unknown>; filePath: string }) => Promise<unknown>
+      }) => {
+        await ctx.parseData({ id: 'page', data: { draft: true }, filePath: resolve(rootDir, 'docs/standalone.md') })
+      },
+    }) as never)
+    const { context } = makeMockContext()
+    const reportPath = join(mkdtempSync(join(tmpdir(), 'fm-provenance-')), 'provenance.json')
+    const loader = globFrontmatter({ pattern: '**/*.md', base: './docs', provenance: reportPath, h1: 'off' })
+    await loader.load(context as never)
+
+    expect(JSON.parse(readFileSync(reportPath, 'utf-8')).page).toEqual({ draft: { layer: 'file', file: 'docs/standalone.md' } })
+  })
+
+  it('reports entries glob skips as unchanged and keeps the report current after the load', async () => {
+    type SyncContext = {
+      parseData: (props: { id: string; data: Record<string, unknown>; filePath: string }) => Promise<Record<string, unknown>>
+      store: {
+        get: (id: string) => { digest?: string } | undefined
+        set: (entry: Record<string, unknown>) => boolean
+        delete: (id: string) => void
+      }
+    }
+    let synced: SyncContext | undefined
+    // Like glob: parse only entries the store holds no digest for
+    const sync = async (ctx: SyncContext) => {
+      synced = ctx
+      if (ctx.store.get('guides/installation')?.digest) return
+      const filePath = 'docs/guides/installation.md'
+      const data = await ctx.parseData({ id: 'guides/installation', data: { draft: true }, filePath: resolve(rootDir, filePath) })
+      ctx.store.set({ id: 'guides/installation', data, digest: 'abc', filePath })
+    }
+    const { context, stored } = makeMockContext()
+    context.store.get.mockImplementation((id) => stored.find((entry) => entry.id === id))
+    const reportPath = join(mkdtempSync(join(tmpdir(), 'fm-provenance-')), 'provenance.json')
+    const loader = globFrontmatter({ pattern: '**/*.md', base: './docs', provenance: reportPath })
+    const report = () => JSON.parse(readFileSync(reportPath, 'utf-8'))
+    const load = () => {
+      vi.mocked(glob).mockImplementationOnce(() => ({ name: 'glob', load: sync }) as never)
+      return loader.load(context as never)
+    }
+
+    await load()
+    const first = report()
+    expect(first['guides/installation'].draft).toEqual({ layer: 'file', file: 'docs/guides/installation.md' })
+
+    await load()
+    expect(context.parseData).toHaveBeenCalledTimes(1)
+    expect(report()).toEqual(first)
+
+    // Entries stored before the report was enabled are parsed again to trace them
+    context.meta.delete('glob-frontmatter:provenance:guides/installation')
+    await load()
+    expect(context.parseData).toHaveBeenCalledTimes(2)
+
+    // Dev re-syncs after the load rewrite the report
+    synced!.store.delete('guides/installation')
+    expect(report()).toEqual({})
+  })
+
+  it('forgets the fingerprint of deleted entries', async () => {
+    vi.mocked(glob).mockImplementationOnce(() => ({
+      name: 'glob',
+      load: async (ctx: { store: { delete: (id: string) => void } }) => {
+        ctx.store.delete('guides/installation')
+      },
+    }) as never)
+    const { context } = makeMockContext()
+    context.meta.set('glob-frontmatter:external:guides/installation', 'abc')
+    const loader = globFrontmatter({ pattern: '**/*.md', base: './docs' })
+    await loader.load(context as never)
+
+    expect(context.meta.has('glob-frontmatter:external:guides/installation')).toBe(false)
+    expect(context.store.delete).toHaveBeenCalledWith('guides/installation')
+  })
+
+  it('replays a change event for entries affected by an edited data file', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'fm-reload-'))
+    mkdirSync(join(root, 'docs'))
+    const dataFile = join(root, 'docs/frontmatter.yml')
+    const pageFile = join(root, 'docs/page.md')
+    writeFileSync(dataFile, 'page.md:\n  title: One\n')
+    writeFileSync(join(root, 'docs/other.md'), '')
+    writeFileSync(pageFile, '')
+
+    vi.mocked(glob).mockImplementationOnce(() => ({
+      name: 'glob',
+      load: async (ctx: {
+        parseData: (props: { id: string; data: Record<string, unknown>; filePath: string }) => Promise<unknown>
+      }) => {
+        await ctx.parseData({ id: 'page', data: {}, filePath: pageFile })
+        await ctx.parseData({ id: 'other', data: {}, filePath: join(root, 'docs/other.md') })
+      },
+    }) as never)
+    const { context } = makeMockContext()
+    context.store.values = () => [
+      { id: 'page', data: {}, filePath: 'docs/page.md' },
+      { id: 'other', data: {}, filePath: 'docs/other.md' },
+    ]
+    const watcher = Object.assign(new EventEmitter(), { add: vi.fn() })
+    const loader = globFrontmatter({ pattern: '**/*.md', base: './docs' })
+    await loader.load({ ...context, config: { root: pathToFileURL(root + '/') }, watcher } as never)
+    expect(watcher.add).toHaveBeenCalledWith([dataFile])
+
+    const changed: string[] = []
+    watcher.on('change', (path: string) => changed.push(path))
+    writeFileSync(dataFile, 'page.md:\n  title: Second\n')
+    watcher.emit('change', dataFile)
+
+    await vi.waitFor(() => expect(changed).toEqual([dataFile, pageFile]))
+  })
+
+  it('matches keys by entry id and slug when asked', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'fm-ids-'))
+    mkdirSync(join(root, 'docs/guides'), { recursive: true })
+    mkdirSync(join(root, 'data'))
+    const pageFile = join(root, 'docs/guides/Installation.md')
+    writeFileSync(pageFile, '')
+    writeFileSync(join(root, 'data/frontmatter.yml'), 'install-guide:\n  title: By id\nguides:\n  installation:\n    draft: true\n')
+
+    const load = async (matchBy?: Array<'id' | 'slug'>) => {
+      vi.mocked(glob).mockImplementationOnce(() => ({
+        name: 'glob',
+        load: async (ctx: {
+          parseData: (props: { id: string; data: Record<string, unknown>; filePath: string }) => Promise<unknown>
+        }) => {
+          // A custom generateId that ignores the path
+          await ctx.parseData({ id: 'install-guide', data: {}, filePath: pageFile })
+        },
+      }) as never)
+      const { context, captured } = makeMockContext()
+      const loader = globFrontmatter({ pattern: '**/*.md', base: './docs', frontmatter: 'data/frontmatter.yml', matchBy, h1: 'off' })
+      await loader.load({ ...context, config: { root: pathToFileURL(root + '/') } } as never)
+      return { data: captured[0].data, warn: context.logger.warn }
+    }
+
+    const matched = await load(['id', 'slug'])
+    expect(matched.data).toEqual({ draft: true, title: 'By id' })
+    expect(matched.warn).not.toHaveBeenCalled()
+
+    const unmatched = await load()
+    expect(unmatched.data).toEqual({})
+    expect(unmatched.warn).not.toHaveBeenCalled()
+  })
+
+  it('matches keys regardless of case and extension, warning when a key is ambiguous', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'fm-keymatch-'))
+    mkdirSync(join(root, 'docs'))
+    writeFileSync(join(root, 'docs/frontmatter.yml'), 'readme:\n  title: Readme\nsetup:\n  draft: true\n')
+    for (const name of ['README.md', 'setup.md', 'setup.mdx']) writeFileSync(join(root, 'docs', name), '')
+
+    vi.mocked(glob).mockImplementationOnce(() => ({
+      name: 'glob',
+      load: async (ctx: {
+        parseData: (props: { id: string; data: Record<string, unknown>; filePath: string }) => Promise<unknown>
+      }) => {
+        for (const name of ['README.md', 'setup.md', 'setup.mdx']) {
+          await ctx.parseData({ id: name, data: {}, filePath: join(root, 'docs', name) })
+        }
+      },
+    }) as never)
+    const { context, captured } = makeMockContext()
+    const loader = globFrontmatter({
+      pattern: '**/*.{md,mdx}',
+      base: './docs',
+      keyMatch: { ignoreCase: true, ignoreExtension: true },
+      h1: 'off',
+    })
+    await loader.load({ ...context, config: { root: pathToFileURL(root + '/') } } as never)
+
+    expect(captured.map((c) => c.data)).toEqual([{ title: 'Readme' }, { draft: true }, { draft: true }])
+    expect(context.logger.warn).toHaveBeenCalledWith(
+      'docs/frontmatter.yml: "setup" matches more than one entry: setup.md, setup.mdx',
+    )
+  })
+
+  it('matches keys naming the extensions the pattern loads, without markdown extractors', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'fm-extensions-'))
+    mkdirSync(join(root, 'docs/team'), { recursive: true })
+    mkdirSync(join(root, 'data'))
+    const memberFile = join(root, 'docs/team/alice.json')
+    writeFileSync(memberFile, '{ "name": "Alice" }\n')
+    writeFileSync(join(root, 'data/frontmatter.yml'), 'team:\n  alice.json:\n    social:\n      github: alice\n')
+
+    vi.mocked(glob).mockImplementationOnce(() => ({
+      name: 'glob',
+      load: async (ctx: {
+        parseData: (props: { id: string; data: Record<string, unknown>; filePath: string }) => Promise<unknown>
+      }) => {
+        await ctx.parseData({ id: 'team/alice', data: { name: 'Alice' }, filePath: memberFile })
+      },
+    }) as never)
+    const { context, captured } = makeMockContext()
+    const loader = globFrontmatter({ pattern: '**/*.json', base: './docs', frontmatter: 'data/frontmatter.yml', description: true })
+    await loader.load({ ...context, config: { root: pathToFileURL(root + '/') } } as never)
+
+    expect(captured[0].data).toEqual({ name: 'Alice', social: { github: 'alice' } })
+    expect(context.logger.warn).not.toHaveBeenCalled()
+  })
+
+  it('never loads data files as entries when the pattern matches their extensions', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'fm-data-entries-'))
+    mkdirSync(join(root, 'docs/guides'), { recursive: true })
+    mkdirSync(join(root, 'docs/_data'))
+    const files = ['docs/guides/frontmatter.yml', 'docs/_data/frontmatter.json', 'docs/guides/team.yml']
+    for (const file of files) writeFileSync(join(root, file), '{}\n')
+
+    vi.mocked(glob).mockImplementationOnce(() => ({
+      name: 'glob',
+      load: async (ctx: {
+        parseData: (props: { id: string; data: Record<string, unknown>; filePath: string }) => Promise<Record<string, unknown>>
+        store: { set: (entry: Record<string, unknown>) => boolean }
+      }) => {
+        for (const filePath of files) {
+          const data = await ctx.parseData({ id: filePath, data: {}, filePath })
+          ctx.store.set({ id: filePath, data, filePath })
+        }
+      },
+    }) as never)
+    const { context, captured, stored } = makeMockContext()
+    const pattern = '**/*.{yml,json}'
+    const loader = globFrontmatter({ pattern, base: './docs', frontmatter: 'docs/_data/frontmatter.json', h1: 'off' })
+    await loader.load({ ...context, config: { root: pathToFileURL(root + '/') } } as never)
+
+    expect(captured.map((c) => c.id)).toEqual(['docs/guides/team.yml'])
+    expect(stored.map((entry) => entry.id)).toEqual(['docs/guides/team.yml'])
+    // The dev watcher matches changed files against the pattern glob was given
+    const globPattern = vi.mocked(glob).mock.calls.at(-1)![0].pattern
+    expect(globPattern).toBe(pattern)
+    expect(picomatch.isMatch('logo.png', globPattern)).toBe(false)
+  })
+
+  it('reloads entries when a data file is created or deleted', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'fm-reload-'))
+    mkdirSync(join(root, 'docs/guides'), { recursive: true })
+    const pageFile = join(root, 'docs/guides/page.md')
+    writeFileSync(pageFile, '')
+
+    // Keep the wrapped parseData to re-parse the entry the way glob would on a change event
+    let reparse = async () => {}
+    vi.mocked(glob).mockImplementationOnce(() => ({
+      name: 'glob',
+      load: async (ctx: {
+        parseData: (props: { id: string; data: Record<string, unknown>; filePath: string }) => Promise<unknown>
+      }) => {
+        reparse = async () => {
+          await ctx.parseData({ id: 'guides/page', data: {}, filePath: pageFile })
+        }
+        await reparse()
+      },
+    }) as never)
+    const { context } = makeMockContext()
+    context.store.values = () => [{ id: 'guides/page', data: {}, filePath: 'docs/guides/page.md' }]
+    const watcher = Object.assign(new EventEmitter(), { add: vi.fn() })
+    const loader = globFrontmatter({ pattern: '**/*.md', base: './docs' })
+    await loader.load({ ...context, config: { root: pathToFileURL(root + '/') }, watcher } as never)
+    expect(watcher.add).not.toHaveBeenCalled()
+
+    const changed: string[] = []
+    watcher.on('change', (path: string) => changed.push(path))
+    const dataFile = join(root, 'docs/guides/frontmatter.yml')
+    writeFileSync(dataFile, 'page.md:\n  title: New\n')
+    watcher.emit('add', dataFile)
+    await vi.waitFor(() => expect(changed).toEqual([pageFile]))
+
+    await reparse()
+    unlinkSync(dataFile)
+    watcher.emit('unlink', dataFile)
+    await vi.waitFor(() => expect(changed).toEqual([pageFile, pageFile]))
+  })
+
+  it('points schema errors at the data file that set the failing field', async () => {
+    const { context } = makeMockContext()
+    const message = '**docs → guides/installation** data does not match collection schema.\n\n'
+      + '  **sidebar.order**: Expected string, received number\n'
+    context.parseData.mockImplementation(async (props) => {
+      if (props.id === 'guides/installation') throw Object.assign(new Error(message), { loc: { file: 'x' } })
+      return props.data
+    })
+    const loader = globFrontmatter({ pattern: '**/*.md', base: './docs' })
+    const error = await loader.load(context as never).catch((e: Error & { loc?: unknown }) => e)
+
+    expect((error as Error).message).toBe(
+      message + '  **sidebar.order** is set in docs/guides/frontmatter.json:4:18 under "guides/installation.md"\n',
+    )
+    expect((error as { loc?: unknown }).loc).toEqual({
+      file: resolve(rootDir, 'docs/guides/frontmatter.json'),
+      line: 4,
+      column: 18,
+    })
+  })
+
+  it('writes a JSON Schema for data files and leaves it alone while unchanged', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'fm-schema-'))
+    const schemaPath = join(dir, '.vscode/frontmatter.schema.json')
+    const perDirectoryPath = join(dir, '.vscode/frontmatter-dir.schema.json')
+    const loader = globFrontmatter({
+      pattern: '**/*.md',
+      base: './docs',
+      jsonSchema: { schema: z.object({ title: z.string() }), path: schemaPath, perDirectoryPath },
+    })
+    await loader.load(makeMockContext().context as never)
+    const written = JSON.parse(readFileSync(schemaPath, 'utf-8'))
+    expect(written.title).toBe('Frontmatter data file')
+    expect(JSON.parse(readFileSync(perDirectoryPath, 'utf-8')).title).toBe('Per-directory frontmatter data file')
+
+    const { mtimeMs } = statSync(schemaPath)
+    await loader.load(makeMockContext().context as never)
+    expect(statSync(schemaPath).mtimeMs).toBe(mtimeMs)
+    expect(vi.mocked(glob).mock.calls.at(-1)![0]).toEqual({ pattern: '**/*.md', base: './docs' })
+  })
+
+  describe('h1 option', () => {
+    const body = '# Installation Guide\n\nFollow these steps to install.'
+    const html = '<h1>Installation Guide</h1>\n<p>Follow these steps to install.</p>'
+    // Astro's slug, suffixed as github-slugger does for a repeated heading
+    const headings = [{ depth: 1, slug: 'installation-guide-1', text: 'Installation Guide' }]
+
+    async function loadWithH1(h1: Parameters<typeof globFrontmatter>[0]['h1'], fileData: Record<string, unknown>) {
+      vi.mocked(glob).mockImplementationOnce(() => ({
+        name: 'glob',
+        load: async (ctx: {
+          parseData: (props: { id: string; data: Record<string, unknown>; filePath: string }) => Promise<Record<string, unknown>>
+          store: { set: (entry: Record<string, unknown>) => boolean }
+        }) => {
+          const data = await ctx.parseData({ id: 'guides/with-h1', data: fileData, filePath: 'docs/guides/with-h1.md' })
+          ctx.store.set({ id: 'guides/with-h1', data, body, rendered: { html, metadata: { headings } } })
+        },
+      }) as never)
+      const { context, stored } = makeMockContext()
+      await globFrontmatter({ pattern: '**/*.md', base: './docs', h1 }).load(context as never)
+      return stored[0] as { data: Record<string, unknown>; body: string; rendered: { html: string } }
+    }
+
+    it('leaves title and body alone when off', async () => {
+      const entry = await loadWithH1('off', { draft: true })
+      expect(entry.data.title).toBeUndefined()
+      expect(entry.body).toBe(body)
+    })
+
+    it('sets the title but keeps the heading in title-only mode', async () => {
+      const entry = await loadWithH1('title-only', { draft: true })
+      expect(entry.data.title).toBe('Installation Guide')
+      expect(entry.body).toBe(body)
+      expect(entry.rendered.html).toBe(html)
+    })
+
+    it('strips the heading only when it matches the final title', async () => {
+      const matching = await loadWithH1('strip-if-matches-title', { draft: true })
+      expect(matching.body).toBe('Follow these steps to install.')
+      expect(matching.rendered.html).toBe('<p>Follow these steps to install.</p>')
+
+      const different = await loadWithH1('strip-if-matches-title', { title: 'Install' })
+      expect(different.data.title).toBe('Install')
+      expect(different.body).toBe(body)
+    })
+
+    it('fills another field from the heading', async () => {
+      const entry = await loadWithH1({ mode: 'title-only', field: 'heading' }, { title: 'Install' })
+      expect(entry.data).toMatchObject({ title: 'Install', heading: 'Installation Guide' })
+      expect(entry.body).toBe(body)
+    })
+
+    it('stores the heading HTML and slug when asked', async () => {
+      const entry = await loadWithH1({ htmlField: 'titleHtml', slugField: 'titleSlug' }, { titleSlug: 'install' })
+      expect(entry.data).toMatchObject({ title: 'Installation Guide', titleHtml: 'Installation Guide', titleSlug: 'install' })
+
+      const stripped = await loadWithH1({ slugField: 'titleSlug' }, {})
+      expect(stripped.data.titleSlug).toBe('installation-guide-1')
+      expect((stripped.rendered as { metadata: { headings: unknown[] } }).metadata.headings).toEqual([])
+    })
+  })
+
+  describe('description option', () => {
+    async function loadWithDescription(description: Parameters<typeof globFrontmatter>[0]['description'], fileData: Record<string, unknown>) {
+      vi.mocked(glob).mockImplementationOnce(() => ({
+        name: 'glob',
+        load: async (ctx: {
+          parseData: (props: { id: string; data: Record<string, unknown>; filePath: string }) => Promise<Record<string, unknown>>
+        }) => {
+          await ctx.parseData({ id: 'guides/with-h1', data: fileData, filePath: 'docs/guides/with-h1.md' })
+        },
+      }) as never)
+      const { context, captured } = makeMockContext()
+      await globFrontmatter({ pattern: '**/*.md', base: './docs', description }).load(context as never)
+      return captured[0].data
+    }
+
+    it('fills description from the first paragraph when enabled', async () => {
+      expect((await loadWithDescription(true, {})).description).toBe('Follow these steps to install.')
+      expect((await loadWithDescription({ maxLength: 20 }, {})).description).toBe('Follow these steps…')
+    })
+
+    it('keeps a description from any layer and is off by default', async () => {
+      expect((await loadWithDescription(true, { description: 'Set' })).description).toBe('Set')
+      expect((await loadWithDescription(undefined, {})).description).toBeUndefined()
+    })
+  })
+
+  it('runs extractors after the H1 and applies their transforms on store', async () => {
+    vi.mocked(glob).mockImplementationOnce(() => ({
+      name: 'glob',
+      load: async (ctx: {
+        parseData: (props: { id: string; data: Record<string, unknown>; filePath: string }) => Promise<Record<string, unknown>>
+        store: { set: (entry: Record<string, unknown>) => boolean }
+      }) => {
+        const data = await ctx.parseData({ id: 'guides/with-h1', data: {}, filePath: resolve(rootDir, 'docs/guides/with-h1.md') })
+        ctx.store.set({
+          id: 'guides/with-h1',
+          data,
+          body: '# Installation Guide\n\nFollow these steps to install.',
+          rendered: { html: '<h1>Installation Guide</h1>\n<p>Follow these steps to install.</p>' },
+        })
+      },
+    }) as never)
+    const { context, stored } = makeMockContext()
+    const loader = globFrontmatter({
+      pattern: '**/*.md',
+      base: './docs',
+      extractors: [
+        ({ body, filePath, data }) => ({ data: { words: body.trim().split(/\s+/).length, source: filePath, heading: data.title } }),
+        { name: 'shout', extract: () => ({ body: (body) => body.toUpperCase(), html: (html) => html.toUpperCase() }) },
+      ],
+    })
+    await loader.load(context as never)
+
+    expect(stored[0]).toMatchObject({
+      data: { title: 'Installation Guide', words: 8, source: 'docs/guides/with-h1.md', heading: 'Installation Guide' },
+      body: 'FOLLOW THESE STEPS TO INSTALL.',
+      rendered: { html: '<P>FOLLOW THESE STEPS TO INSTALL.</P>' },
+    })
+  })
 })
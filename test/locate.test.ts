@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { mkdtempSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join, resolve } from 'node:path'
+import { annotateSchemaError, fieldOrigin, locateField, schemaIssuePaths } from '../src/locate.js'
+
+const centralDir = resolve(import.meta.dirname, 'fixtures/central')
+const rootDir = resolve(import.meta.dirname, 'fixtures/per-dir')
+
+describe('locateField', () => {
+  it('finds a field under a nested YAML entry key', () => {
+    const file = resolve(centralDir, 'frontmatter.yml')
+    expect(locateField(file, 'guides/installation.md', ['sidebar', 'order'])).toEqual({ file, line: 5, column: 7 })
+  })
+
+  it('finds a field under a flat JSON entry key', () => {
+    const file = resolve(centralDir, 'frontmatter.json')
+    expect(locateField(file, 'guides/installation.md', ['title'])).toEqual({ file, line: 3, column: 5 })
+  })
+
+  it('matches keys scoped by a directory or prefix', () => {
+    const file = resolve(rootDir, 'docs/guides/frontmatter.json')
+    expect(locateField(file, 'guides/installation.md', ['sidebar', 'order'], { prefix: 'guides' }))
+      .toEqual({ file, line: 4, column: 18 })
+    expect(locateField(file, 'guides/installation.md', ['sidebar', 'order'])).toBeUndefined()
+  })
+
+  it('matches the whole entry key, not a shorter key it ends with', () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'fm-locate-')), 'frontmatter.yml')
+    writeFileSync(file, 'index.md:\n  title: Home\nguides:\n  index.md:\n    title: Guides\n')
+    expect(locateField(file, 'guides/index.md', ['title'])).toEqual({ file, line: 5, column: 5 })
+    expect(locateField(file, 'docs/index.md', ['title'])).toBeUndefined()
+  })
+
+  it('descends into keys naming the configured content extensions', () => {
+    const file = join(mkdtempSync(join(tmpdir(), 'fm-locate-')), 'frontmatter.yml')
+    writeFileSync(file, 'team:\n  alice.json:\n    social:\n      github: alice\n')
+    expect(locateField(file, 'team/alice.json', ['social', 'github'], { extensions: new Set(['.json']) }))
+      .toEqual({ file, line: 4, column: 7 })
+  })
+
+  it('falls back to the deepest enclosing key', () => {
+    const file = resolve(centralDir, 'frontmatter.yml')
+    expect(locateField(file, 'guides/installation.md', ['sidebar', 'missing'])).toEqual({ file, line: 4, column: 5 })
+  })
+
+  it('steps through JSON-form directives', () => {
+    const file = resolve(centralDir, 'directives.json')
+    expect(locateField(file, 'guides/installation.md', ['sidebar', 'order'])).toEqual({ file, line: 5, column: 32 })
+  })
+
+  it('returns undefined for formats without positions and unknown keys', () => {
+    expect(locateField(resolve(centralDir, 'frontmatter.toml'), 'guides/installation.md', ['title'])).toBeUndefined()
+    expect(locateField(resolve(centralDir, 'frontmatter.yml'), 'missing.md', ['title'])).toBeUndefined()
+  })
+})
+
+describe('schemaIssuePaths', () => {
+  it('reads the field paths of an Astro schema error', () => {
+    const message = '**docs → guides/installation** data does not match collection schema.\n\n'
+      + '  **sidebar.order**: Expected number, received string\n  **title**: Required\n'
+    expect(schemaIssuePaths(message)).toEqual(['sidebar.order', 'title'])
+  })
+})
+
+describe('fieldOrigin', () => {
+  it('uses the closest enclosing field with an origin', () => {
+    const origin = { layer: 'central' as const, file: 'a.yml', key: 'x.md' }
+    expect(fieldOrigin({ tags: origin }, 'tags.1')).toEqual({ origin, path: 'tags' })
+    expect(fieldOrigin({ tags: origin }, 'title')).toBeUndefined()
+  })
+})
+
+describe('annotateSchemaError', () => {
+  const message = '**docs → guides/installation** data does not match collection schema.\n\n'
+    + '  **sidebar.order**: Expected number, received string\n  **title**: Required\n'
+
+  it('names the data file, line and column of externally set fields', () => {
+    const error = Object.assign(new Error(message), { loc: { file: 'docs/guides/installation.md', line: 1 } })
+    annotateSchemaError(error, {
+      'sidebar.order': { layer: 'per-dir', file: 'docs/guides/frontmatter.json', key: 'guides/installation.md' },
+      title: { layer: 'file', file: 'docs/guides/installation.md' },
+    }, rootDir, {
+      sources: [{ file: resolve(rootDir, 'docs/guides/frontmatter.json'), layer: 'per-dir', entries: new Map(), prefix: 'guides' }],
+    })
+
+    expect(error.message).toBe(
+      message + '  **sidebar.order** is set in docs/guides/frontmatter.json:4:18 under "guides/installation.md"\n',
+    )
+    expect(error.loc).toEqual({ file: resolve(rootDir, 'docs/guides/frontmatter.json'), line: 4, column: 18 })
+  })
+
+  it('leaves errors about in-file fields untouched', () => {
+    const error = new Error(message)
+    annotateSchemaError(error, { title: { layer: 'file', file: 'docs/guides/installation.md' } }, rootDir)
+    expect(error.message).toBe(message)
+  })
+
+  it('names providers without a position', () => {
+    const error = new Error(message)
+    annotateSchemaError(error, { title: { layer: 'provider', file: 'provider:titles', key: 'guides/installation.md' } }, rootDir)
+    expect(error.message).toContain('  **title** is set in provider:titles under "guides/installation.md"')
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { deepMerge } from '../src/merge.js'
+import { deepMerge, resolveDirectives } from '../src/merge.js'
 
 describe('deepMerge', () => {
   it('merges flat objects', () => {
@@ -43,3 +43,133 @@ describe('deepMerge', () => {
     expect(({} as Record<string, unknown>).polluted).toBeUndefined()
   })
 })
+
+describe('deepMerge array strategies', () => {
+  const target = { tags: ['docs', 'api'] }
+  const source = { tags: ['api', 'beta'] }
+
+  it('replaces arrays by default', () => {
+    expect(deepMerge(target, source, {})).toEqual({ tags: ['api', 'beta'] })
+  })
+
+  it('appends source items', () => {
+    expect(deepMerge(target, source, { default: 'append' })).toEqual({
+      tags: ['docs', 'api', 'api', 'beta'],
+    })
+  })
+
+  it('prepends source items', () => {
+    expect(deepMerge(target, source, { default: 'prepend' })).toEqual({
+      tags: ['api', 'beta', 'docs', 'api'],
+    })
+  })
+
+  it('unions by value', () => {
+    expect(deepMerge(target, source, { default: 'union' })).toEqual({
+      tags: ['docs', 'api', 'beta'],
+    })
+  })
+
+  it('unions objects by value', () => {
+    const result = deepMerge(
+      { links: [{ href: '/a' }] },
+      { links: [{ href: '/a' }, { href: '/b' }] },
+      { default: 'union' },
+    )
+    expect(result).toEqual({ links: [{ href: '/a' }, { href: '/b' }] })
+  })
+
+  it('unions objects by key, deep-merging matches', () => {
+    const result = deepMerge(
+      { authors: [{ name: 'Ann', role: 'writer' }, { name: 'Bo' }] },
+      { authors: [{ name: 'Ann', role: 'editor', email: 'ann@example.com' }, { name: 'Cy' }, 'plain'] },
+      { default: { unionBy: 'name' } },
+    )
+    expect(result).toEqual({
+      authors: [
+        { name: 'Ann', role: 'editor', email: 'ann@example.com' },
+        { name: 'Bo' },
+        { name: 'Cy' },
+        'plain',
+      ],
+    })
+  })
+
+  it('applies per-path overrides using dotted paths', () => {
+    const result = deepMerge(
+      { tags: ['a'], authors: ['x'], sidebar: { badges: ['new'] } },
+      { tags: ['b'], authors: ['y'], sidebar: { badges: ['hot'] } },
+      { default: 'append', paths: { tags: 'union', authors: 'replace', 'sidebar.badges': 'prepend' } },
+    )
+    expect(result).toEqual({ tags: ['a', 'b'], authors: ['y'], sidebar: { badges: ['hot', 'new'] } })
+  })
+
+  it('replaces when only one side is an array', () => {
+    expect(deepMerge({ tags: 'a' }, { tags: ['b'] }, { default: 'append' })).toEqual({ tags: ['b'] })
+  })
+
+  it('does not mutate input arrays', () => {
+    const t = { tags: ['a'] }
+    deepMerge(t, { tags: ['b'] }, { default: 'append' })
+    expect(t).toEqual({ tags: ['a'] })
+  })
+})
+
+describe('merge directives', () => {
+  it('$unset removes an inherited key', () => {
+    expect(deepMerge({ a: 1, sidebar: { order: 1 } }, { sidebar: '$unset' })).toEqual({ a: 1 })
+  })
+
+  it('$unset removes a nested key', () => {
+    expect(deepMerge({ sidebar: { order: 1, badge: 'new' } }, { sidebar: { badge: '$unset' } }))
+      .toEqual({ sidebar: { order: 1 } })
+  })
+
+  it('$replace swaps the subtree instead of deep merging', () => {
+    const result = deepMerge(
+      { sidebar: { order: 1, badge: 'new' } },
+      { sidebar: { $replace: { order: 2 } } },
+    )
+    expect(resolveDirectives(result)).toEqual({ sidebar: { order: 2 } })
+  })
+
+  it('later layers deep merge into a replaced subtree', () => {
+    const replaced = deepMerge({ sidebar: { order: 1, badge: 'new' } }, { sidebar: { $replace: { order: 2 } } })
+    expect(deepMerge(replaced, { sidebar: { label: 'X' } })).toEqual({ sidebar: { order: 2, label: 'X' } })
+  })
+
+  it('$force wins over later unforced layers', () => {
+    const result = deepMerge({ title: { $force: 'External' } }, { title: 'In-file' })
+    expect(resolveDirectives(result)).toEqual({ title: 'External' })
+  })
+
+  it('$force is not removed by a later $unset', () => {
+    const result = deepMerge({ title: { $force: 'External' } }, { title: '$unset' })
+    expect(resolveDirectives(result)).toEqual({ title: 'External' })
+  })
+
+  it('a later $force overrides an earlier one', () => {
+    const result = deepMerge({ title: { $force: 'Central' } }, { title: { $force: 'Per-dir' } })
+    expect(resolveDirectives(result)).toEqual({ title: 'Per-dir' })
+  })
+
+  it('forced objects merge over the inherited value', () => {
+    const result = deepMerge({ sidebar: { order: 1 } }, { sidebar: { $force: { badge: 'new' } } })
+    expect(resolveDirectives(deepMerge(result, { sidebar: { order: 5 } })))
+      .toEqual({ sidebar: { order: 1, badge: 'new' } })
+  })
+})
+
+describe('resolveDirectives', () => {
+  it('unwraps nested directives and drops leftover $unset values', () => {
+    expect(resolveDirectives({
+      a: '$unset',
+      b: { $force: { c: { $replace: [1] }, d: '$unset' } },
+      e: [{ $force: 1 }],
+    })).toEqual({ b: { c: [1] }, e: [1] })
+  })
+
+  it('leaves objects with other keys alongside $-keys untouched', () => {
+    expect(resolveDirectives({ a: { $force: 1, b: 2 } })).toEqual({ a: { $force: 1, b: 2 } })
+  })
+})
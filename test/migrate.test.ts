@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest'
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { unifiedDiff } from '../src/diff.js'
+import { lintFrontmatter } from '../src/lint.js'
+import { applyChanges, extractFrontmatter, inlineFrontmatter, splitFrontmatter } from '../src/migrate.js'
+
+function makeSite(files: Record<string, string>): string {
+  const root = mkdtempSync(join(tmpdir(), 'fm-migrate-'))
+  for (const [path, content] of Object.entries(files)) {
+    mkdirSync(dirname(join(root, path)), { recursive: true })
+    writeFileSync(join(root, path), content)
+  }
+  return root
+}
+
+const read = (root: string, path: string) => readFileSync(join(root, path), 'utf-8')
+
+const site = {
+  'docs/index.md': '---\ntitle: Home\n---\n# Welcome\n',
+  'docs/guides/install.md': '---\n# shown in the sidebar\ntitle: Install\nsidebar:\n  order: 1\n---\nSteps.\n',
+  'docs/guides/plain.md': 'No frontmatter.\n',
+}
+
+describe('splitFrontmatter', () => {
+  it('separates fenced YAML from the body', () => {
+    expect(splitFrontmatter('---\ntitle: A\n---\nBody\n')).toEqual({ frontmatter: 'title: A\n', body: 'Body\n' })
+    expect(splitFrontmatter('---\n---\nBody')).toEqual({ frontmatter: '', body: 'Body' })
+    expect(splitFrontmatter('Body')).toEqual({ frontmatter: undefined, body: 'Body' })
+  })
+})
+
+describe('extractFrontmatter', () => {
+  it('moves all keys into a nested central file', () => {
+    const root = makeSite(site)
+    applyChanges(extractFrontmatter({ rootDir: root, base: 'docs' }))
+
+    expect(read(root, 'docs/index.md')).toBe('# Welcome\n')
+    expect(read(root, 'docs/guides/install.md')).toBe('Steps.\n')
+    expect(read(root, 'docs/guides/plain.md')).toBe('No frontmatter.\n')
+    expect(read(root, 'frontmatter.yml')).toBe(
+      'guides:\n  install.md:\n    title: Install\n    sidebar:\n      order: 1\nindex.md:\n  title: Home\n',
+    )
+  })
+
+  it('moves selected keys into flat keys, keeping the rest of the frontmatter', () => {
+    const root = makeSite(site)
+    applyChanges(extractFrontmatter({
+      rootDir: root,
+      base: 'docs',
+      keys: ['sidebar'],
+      layout: 'flat',
+      file: 'data/frontmatter.yml',
+    }))
+
+    expect(read(root, 'docs/guides/install.md')).toBe('---\n# shown in the sidebar\ntitle: Install\n---\nSteps.\n')
+    expect(read(root, 'data/frontmatter.yml')).toBe('guides/install.md:\n  sidebar:\n    order: 1\n')
+  })
+
+  it('writes per-directory files next to the content', () => {
+    const root = makeSite(site)
+    applyChanges(extractFrontmatter({ rootDir: root, base: 'docs', keys: ['title'], to: 'per-directory' }))
+
+    expect(read(root, 'docs/frontmatter.yml')).toBe('index.md:\n  title: Home\n')
+    expect(read(root, 'docs/guides/frontmatter.yml')).toBe('install.md:\n  title: Install\n')
+  })
+
+  it('merges into an existing data file without dropping its comments', () => {
+    const root = makeSite({ ...site, 'frontmatter.yml': '# Site data\nindex.md:\n  draft: true\n' })
+    const changes = extractFrontmatter({ rootDir: root, base: 'docs', keys: ['title'], layout: 'flat' })
+    const data = changes.find((c) => c.file.endsWith('frontmatter.yml'))!
+
+    expect(data.before).toBe('# Site data\nindex.md:\n  draft: true\n')
+    expect(data.after).toBe('# Site data\nindex.md:\n  draft: true\n  title: Home\nguides/install.md:\n  title: Install\n')
+  })
+
+  it('plans without touching disk', () => {
+    const root = makeSite(site)
+    const changes = extractFrontmatter({ rootDir: root, base: 'docs' })
+    expect(changes.map((c) => c.file.slice(root.length))).toEqual([
+      '/docs/guides/install.md',
+      '/docs/index.md',
+      '/frontmatter.yml',
+    ])
+    expect(existsSync(join(root, 'frontmatter.yml'))).toBe(false)
+  })
+
+  it('refuses a central file the loader would read as a per-directory file', () => {
+    const root = makeSite(site)
+    expect(() => extractFrontmatter({ rootDir: root, base: 'docs', file: 'docs/frontmatter.yml' })).toThrow(
+      'docs/frontmatter.yml would be read as a per-directory file',
+    )
+    expect(() => extractFrontmatter({ rootDir: root, base: '.' })).toThrow('frontmatter.yml would be read as a per-directory file')
+  })
+})
+
+describe('inlineFrontmatter', () => {
+  it('writes merged external data back into content files', () => {
+    const root = makeSite({
+      'docs/index.md': '---\ntitle: Home\n---\n# Welcome\n',
+      'docs/guides/install.md': 'Steps.\n',
+      'docs/frontmatter.yml': 'index.md:\n  title: Ignored\n  draft: true\n',
+      'data/central.yml': 'guides:\n  _defaults:\n    sidebar:\n      badge: New\n',
+    })
+    const changes = inlineFrontmatter({ rootDir: root, base: 'docs', frontmatter: 'data/central.yml' })
+    applyChanges(changes)
+
+    expect(read(root, 'docs/index.md')).toBe('---\ntitle: Home\ndraft: true\n---\n# Welcome\n')
+    expect(read(root, 'docs/guides/install.md')).toBe('---\nsidebar:\n  badge: New\n---\nSteps.\n')
+    expect(existsSync(join(root, 'docs/frontmatter.yml'))).toBe(true)
+  })
+
+  it('resolves directives left in the content file', () => {
+    const root = makeSite({
+      'docs/index.md': '---\ndraft: $unset\nsidebar:\n  badge: $unset\n  order: 2\n---\nBody\n',
+      'docs/frontmatter.yml': 'index.md:\n  draft: true\n  sidebar:\n    badge: New\n',
+    })
+    applyChanges(inlineFrontmatter({ rootDir: root, base: 'docs' }))
+    expect(read(root, 'docs/index.md')).toBe('---\nsidebar:\n  order: 2\n---\nBody\n')
+  })
+
+  it('matches keys with the extensions and key matching the loader uses', () => {
+    const root = makeSite({
+      'docs/Intro.markdown': 'Body\n',
+      'data/frontmatter.yml': 'intro:\n  title: Intro\n',
+    })
+    applyChanges(inlineFrontmatter({
+      rootDir: root,
+      base: 'docs',
+      pattern: '**/*.markdown',
+      frontmatter: 'data/frontmatter.yml',
+      keyMatch: { ignoreCase: true, ignoreExtension: true },
+    }))
+    expect(read(root, 'docs/Intro.markdown')).toBe('---\ntitle: Intro\n---\nBody\n')
+  })
+
+  it('deletes the data files when asked', () => {
+    const root = makeSite({
+      'docs/index.md': 'Body\n',
+      'docs/frontmatter.yml': 'index.md:\n  title: Home\n',
+    })
+    applyChanges(inlineFrontmatter({ rootDir: root, base: 'docs', removeDataFiles: true }))
+
+    expect(read(root, 'docs/index.md')).toBe('---\ntitle: Home\n---\nBody\n')
+    expect(existsSync(join(root, 'docs/frontmatter.yml'))).toBe(false)
+  })
+})
+
+describe('round trip', () => {
+  it('inlines exactly what extract moved out, with lint finding nothing in between', () => {
+    const files = {
+      'docs/index.md': '---\ntitle: Home\n---\n# Welcome\n',
+      'docs/guides/install.md': '---\ntitle: Install\nsidebar:\n  order: 1\n---\nSteps.\n',
+    }
+    const root = makeSite(files)
+    applyChanges(extractFrontmatter({ rootDir: root, base: 'docs' }))
+    expect(read(root, 'docs/guides/install.md')).toBe('Steps.\n')
+
+    expect(lintFrontmatter({ rootDir: root, base: 'docs', frontmatter: 'frontmatter.yml' })).toEqual([])
+
+    applyChanges(inlineFrontmatter({ rootDir: root, base: 'docs', frontmatter: 'frontmatter.yml', removeDataFiles: true }))
+    for (const [path, content] of Object.entries(files)) expect(read(root, path)).toBe(content)
+    expect(existsSync(join(root, 'frontmatter.yml'))).toBe(false)
+  })
+})
+
+describe('unifiedDiff', () => {
+  it('prints changed lines with context', () => {
+    expect(unifiedDiff('a.md', 'one\ntwo\nthree\n', 'one\n2\nthree\n')).toBe(
+      '--- a/a.md\n+++ b/a.md\n@@ -1,3 +1,3 @@\n one\n-two\n+2\n three\n',
+    )
+  })
+
+  it('diffs created and deleted files against /dev/null', () => {
+    expect(unifiedDiff('new.yml', null, 'a: 1\n')).toBe('--- /dev/null\n+++ b/new.yml\n@@ -0,0 +1,1 @@\n+a: 1\n')
+    expect(unifiedDiff('old.yml', 'a: 1\n', null)).toBe('--- a/old.yml\n+++ /dev/null\n@@ -1,1 +0,0 @@\n-a: 1\n')
+  })
+
+  it('returns nothing for identical contents', () => {
+    expect(unifiedDiff('a.md', 'same\n', 'same\n')).toBe('')
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+import path from 'node:path'
+import { contentKey, contentSlug, slugAliases, toPosixPath } from '../src/paths.js'
+
+describe('toPosixPath', () => {
+  it('replaces platform separators', () => {
+    expect(toPosixPath('guides\\install.md', path.win32)).toBe('guides/install.md')
+    expect(toPosixPath('guides/install.md', path.posix)).toBe('guides/install.md')
+  })
+})
+
+describe('contentKey', () => {
+  it('keys absolute and root-relative Windows paths with forward slashes', () => {
+    const root = 'C:\\site'
+    const base = 'C:\\site\\src\\content\\docs'
+    expect(contentKey('C:\\site\\src\\content\\docs\\guides\\install.md', root, base, path.win32)).toBe('guides/install.md')
+    expect(contentKey('src/content/docs/guides/install.md', root, base, path.win32)).toBe('guides/install.md')
+  })
+
+  it('keys POSIX paths', () => {
+    expect(contentKey('/site/docs/a/b.md', '/site', '/site/docs', path.posix)).toBe('a/b.md')
+    expect(contentKey('docs/a/b.md', '/site', '/site/docs', path.posix)).toBe('a/b.md')
+  })
+})
+
+describe('contentSlug', () => {
+  it('slugs like the default generateId', () => {
+    expect(contentSlug('guides/Getting Started.md')).toBe('guides/getting-started')
+    expect(contentSlug('guides/index.mdx')).toBe('guides')
+    expect(contentSlug('index.md')).toBe('index')
+    expect(contentSlug('v1.2/notes.md')).toBe('v12/notes')
+    expect(contentSlug('guides/🚀 Launch!.md')).toBe('guides/-launch')
+  })
+})
+
+describe('slugAliases', () => {
+  it('aliases keys to slugs only when asked', () => {
+    expect(slugAliases(undefined)).toBeUndefined()
+    expect(slugAliases([])).toBeUndefined()
+    expect(slugAliases(['slug'])?.('guides/Install.md')).toEqual(['guides/install'])
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+import { recordMergeStep, traceLayers } from '../src/provenance.js'
+import type { Provenance } from '../src/provenance.js'
+import type { FrontmatterSource } from '../src/frontmatter-map.js'
+
+describe('recordMergeStep', () => {
+  const central = { layer: 'central', file: 'frontmatter.yml' } as const
+  const file = { layer: 'file', file: 'docs/a.md' } as const
+
+  it('attributes new and changed leaves to the step', () => {
+    const provenance: Provenance = { title: central, 'sidebar.order': central }
+    recordMergeStep(
+      provenance,
+      { title: 'A', sidebar: { order: 1 } },
+      { title: 'A', sidebar: { order: 2 }, draft: true },
+      file,
+    )
+    expect(provenance).toEqual({ title: central, 'sidebar.order': file, draft: file })
+  })
+
+  it('forgets leaves the step removed', () => {
+    const provenance: Provenance = { title: central, description: central }
+    recordMergeStep(provenance, { title: 'A', description: 'D' }, { title: 'A' }, file)
+    expect(provenance).toEqual({ title: central })
+  })
+
+  it('treats arrays as leaves', () => {
+    const provenance: Provenance = { tags: central }
+    recordMergeStep(provenance, { tags: ['a'] }, { tags: ['a', 'b'] }, file)
+    expect(provenance).toEqual({ tags: file })
+  })
+
+  it('keeps the origin of forced values the step could not override', () => {
+    const provenance: Provenance = { title: central }
+    recordMergeStep(provenance, { title: { $force: 'A' } }, { title: { $force: 'A' } }, file)
+    expect(provenance).toEqual({ title: central })
+  })
+})
+
+describe('traceLayers', () => {
+  it('attributes each field to the data file and key that set it', () => {
+    const central: FrontmatterSource = { file: '/site/frontmatter.yml', layer: 'central', entries: new Map() }
+    const perDir: FrontmatterSource = { file: '/site/docs/guides/frontmatter.yml', layer: 'per-dir', entries: new Map() }
+    const provenance = traceLayers(
+      [
+        { source: central, key: '**/*.md', data: { layout: 'doc', sidebar: { badge: 'new' } } },
+        { source: perDir, key: 'guides/a.md', data: { title: 'A', sidebar: { badge: '$unset' } } },
+      ],
+      {},
+      '/site',
+    )
+    expect(provenance).toEqual({
+      layout: { layer: 'central', file: 'frontmatter.yml', key: '**/*.md' },
+      title: { layer: 'per-dir', file: 'docs/guides/frontmatter.yml', key: 'guides/a.md' },
+    })
+  })
+})
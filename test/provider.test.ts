@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { resolve } from 'node:path'
+import { collectCentralWatchPaths, createCentralWatchMatcher, loadCentralSources } from '../src/provider.js'
+
+const rootDir = resolve(import.meta.dirname, 'fixtures/layered')
+const basePath = resolve(rootDir, 'docs')
+
+describe('loadCentralSources', () => {
+  it('returns no sources when the option is unset', async () => {
+    expect(await loadCentralSources(undefined, { rootDir, basePath })).toEqual([])
+  })
+
+  it('loads a provider function as a provider source', async () => {
+    const sources = await loadCentralSources(
+      function gitHistory() {
+        return { guides: { 'intro.md': { lastUpdated: '2026-01-01' } } }
+      },
+      { rootDir, basePath },
+    )
+    expect(sources).toEqual([{
+      file: 'provider:gitHistory',
+      layer: 'provider',
+      entries: new Map([['guides/intro.md', { lastUpdated: '2026-01-01' }]]),
+    }])
+  })
+
+  it('awaits async providers and passes the load context', async () => {
+    const seen: unknown[] = []
+    const sources = await loadCentralSources({
+      name: 'manifest',
+      prefix: 'components',
+      load: async (context) => {
+        seen.push(context)
+        return { 'accordion.md': { title: 'From Manifest' } }
+      },
+    }, { rootDir, basePath })
+    expect(seen).toEqual([{ rootDir, basePath }])
+    expect(sources[0].file).toBe('provider:manifest')
+    expect(sources[0].entries.get('components/accordion.md')).toEqual({ title: 'From Manifest' })
+  })
+
+  it('names providers by option, function name, or anonymous for a load method', async () => {
+    const named = async function manifest() {
+      return {}
+    }
+    const sources = await loadCentralSources([named, { load: async () => ({}) }, { name: 'teams', load: () => ({}) }], { rootDir, basePath })
+    expect(sources.map((s) => s.file)).toEqual(['provider:manifest', 'provider:anonymous', 'provider:teams'])
+  })
+
+  it('keeps option order across files and providers', async () => {
+    const sources = await loadCentralSources(
+      ['./meta/teams/*.yml', { name: 'late', load: () => ({}) }, './meta/base.yml', './missing.yml'],
+      { rootDir, basePath },
+    )
+    expect(sources.map((s) => s.file)).toEqual([
+      resolve(rootDir, 'meta/teams/a.yml'),
+      resolve(rootDir, 'meta/teams/b.yml'),
+      'provider:late',
+      resolve(rootDir, 'meta/base.yml'),
+    ])
+  })
+})
+
+describe('collectCentralWatchPaths', () => {
+  it('includes central files and provider dependencies', () => {
+    const paths = collectCentralWatchPaths(
+      ['./meta/base.yml', { load: () => ({}), dependencies: ['./data/manifest.json'] }, () => ({})],
+      rootDir,
+    )
+    expect(paths).toEqual([resolve(rootDir, 'meta/base.yml'), resolve(rootDir, 'data/manifest.json')])
+  })
+})
+
+describe('createCentralWatchMatcher', () => {
+  it('matches central files, files a central glob would match, and provider dependencies', () => {
+    const isCentral = createCentralWatchMatcher(
+      ['./meta/base.yml', { path: 'meta/teams/*.yml', prefix: 'x' }, { load: () => ({}), dependencies: ['data.json'] }],
+      rootDir,
+    )
+    expect(isCentral(resolve(rootDir, 'meta/base.yml'))).toBe(true)
+    expect(isCentral(resolve(rootDir, 'meta/teams/new.yml'))).toBe(true)
+    expect(isCentral(resolve(rootDir, 'data.json'))).toBe(true)
+    expect(isCentral(resolve(rootDir, 'meta/other.yml'))).toBe(false)
+  })
+})